@@ -0,0 +1,159 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  classifyAttachment,
+  findAttachment,
+  normalizeMimeType,
+  prepareAttachmentUploads,
+} from '../attachments.js';
+
+describe('attachment helpers', () => {
+  it('classifies text by MIME type or file extension', () => {
+    expect(classifyAttachment('debug.txt', 'text/plain')).toBe('text');
+    expect(classifyAttachment('data.json', 'application/json; charset=utf-8')).toBe('text');
+    expect(classifyAttachment('debug.log', 'application/octet-stream')).toBe('text');
+    expect(classifyAttachment('export.CSV', 'application/vnd.ms-excel')).toBe('text');
+  });
+
+  it('classifies supported images and falls back to binary', () => {
+    expect(classifyAttachment('screenshot.png', 'image/png')).toBe('image');
+    expect(classifyAttachment('photo.jpg', 'IMAGE/JPEG')).toBe('image');
+    expect(classifyAttachment('scan.tiff', 'image/tiff')).toBe('binary');
+    expect(classifyAttachment('plugin.zip', 'application/zip')).toBe('binary');
+  });
+
+  it('normalizes MIME types', () => {
+    expect(normalizeMimeType(' Text/Plain; charset=UTF-8 ')).toBe('text/plain');
+    expect(normalizeMimeType(null)).toBe('');
+  });
+
+  it('finds attachments by ID or file name across threads', () => {
+    const conversation = {
+      id: 1,
+      number: 2,
+      subject: 'Logs',
+      status: 'active' as const,
+      _embedded: {
+        threads: [
+          { id: 10 },
+          {
+            id: 11,
+            attachments: [{ id: 5, file_name: 'Debug.log', mime_type: 'text/plain', size: 10 }],
+          },
+        ],
+      },
+    };
+
+    expect(findAttachment(conversation, '5')?.file_name).toBe('Debug.log');
+    expect(findAttachment(conversation, 'debug.log')?.id).toBe(5);
+    expect(findAttachment(conversation, 'missing.log')).toBeUndefined();
+  });
+});
+
+describe('attachment uploads', () => {
+  let root: string;
+  let allowedDirectory: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcp-freescout-uploads-'));
+    allowedDirectory = join(root, 'allowed');
+    await mkdir(allowedDirectory);
+    await writeFile(join(allowedDirectory, 'export.log'), 'line 1\n');
+    await writeFile(join(root, 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    await rm(root, { force: true, recursive: true });
+  });
+
+  it('reads allow-listed files and infers their MIME type', async () => {
+    const uploads = await prepareAttachmentUploads([{ path: 'export.log' }], {
+      allowedDirectory,
+      maxBytes: 100,
+    });
+
+    expect(uploads).toEqual([
+      {
+        fileName: 'export.log',
+        mimeType: 'text/plain',
+        data: Buffer.from('line 1\n').toString('base64'),
+      },
+    ]);
+  });
+
+  it('rejects paths and symlinks that escape the allowed directory', async () => {
+    await symlink(join(root, 'secret.txt'), join(allowedDirectory, 'link.txt'));
+
+    await expect(
+      prepareAttachmentUploads([{ path: '../secret.txt' }], { allowedDirectory, maxBytes: 100 })
+    ).rejects.toThrow(/outside the allowed directory/);
+    await expect(
+      prepareAttachmentUploads([{ path: 'link.txt' }], { allowedDirectory, maxBytes: 100 })
+    ).rejects.toThrow(/outside the allowed directory/);
+  });
+
+  it('disables local paths when no directory is configured', async () => {
+    await expect(
+      prepareAttachmentUploads([{ path: 'export.log' }], { maxBytes: 100 })
+    ).rejects.toThrow(/FREESCOUT_ATTACHMENT_DIR/);
+  });
+
+  it('validates base64 payloads, sizes, and MIME types', async () => {
+    const data = Buffer.from('hello').toString('base64');
+
+    await expect(
+      prepareAttachmentUploads([{ data, fileName: 'hello.txt' }], { maxBytes: 100 })
+    ).resolves.toEqual([{ fileName: 'hello.txt', mimeType: 'text/plain', data }]);
+    await expect(
+      prepareAttachmentUploads([{ data, fileName: 'hello.txt' }], { maxBytes: 4 })
+    ).rejects.toThrow(/exceeds the 4 byte upload limit/);
+    await expect(
+      prepareAttachmentUploads([{ data: 'not base64!', fileName: 'a.txt' }], { maxBytes: 100 })
+    ).rejects.toThrow(/not valid base64/);
+    await expect(
+      prepareAttachmentUploads([{ data, fileName: 'run.exe' }], { maxBytes: 100 })
+    ).rejects.toThrow(/pass mimeType explicitly/);
+    await expect(
+      prepareAttachmentUploads([{ data, fileName: 'run.sh', mimeType: 'application/x-sh' }], {
+        maxBytes: 100,
+      })
+    ).rejects.toThrow(/disallowed MIME type/);
+    await expect(
+      prepareAttachmentUploads([{ data, path: 'export.log', fileName: 'x.txt' }], {
+        allowedDirectory,
+        maxBytes: 100,
+      })
+    ).rejects.toThrow(/exactly one of path or data/);
+  });
+
+  it('checks the file content instead of trusting the name or MIME type', async () => {
+    const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from('pixels')]);
+    const executable = Buffer.from('4d5a900003000000', 'hex').toString('base64');
+    await writeFile(join(allowedDirectory, 'screenshot'), png);
+
+    await expect(
+      prepareAttachmentUploads([{ path: 'screenshot' }], { allowedDirectory, maxBytes: 100 })
+    ).resolves.toMatchObject([{ fileName: 'screenshot', mimeType: 'image/png' }]);
+    await expect(
+      prepareAttachmentUploads([{ data: executable, fileName: 'shot.png' }], { maxBytes: 100 })
+    ).rejects.toThrow(/neither text nor a PNG/);
+    await expect(
+      prepareAttachmentUploads(
+        [{ data: executable, fileName: 'notes.txt', mimeType: 'text/plain' }],
+        { maxBytes: 100 }
+      )
+    ).rejects.toThrow(/neither text nor a PNG/);
+    await expect(
+      prepareAttachmentUploads([{ data: png.toString('base64'), fileName: 'debug.log' }], {
+        maxBytes: 100,
+      })
+    ).rejects.toThrow('Attachment "debug.log" contains image/png data, not text/plain');
+    await expect(
+      prepareAttachmentUploads(
+        [{ data: Buffer.from('plain').toString('base64'), fileName: 'fake.pdf' }],
+        { maxBytes: 100 }
+      )
+    ).rejects.toThrow('Attachment "fake.pdf" contains text, not application/pdf');
+  });
+});
@@ -0,0 +1,34 @@
+import { mapWithConcurrency } from '../concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([30, 10, 20, 5, 15].map((delay) => ({ ok: true, value: delay * 2 })));
+  });
+
+  it('records failures per item without stopping the rest', async () => {
+    const results = await mapWithConcurrency(['a', 'b', 'c'], 3, async (item) => {
+      if (item === 'b') throw new Error('boom');
+      return item.toUpperCase();
+    });
+
+    expect(results[0]).toEqual({ ok: true, value: 'A' });
+    expect(results[1]).toMatchObject({ ok: false, error: new Error('boom') });
+    expect(results[2]).toEqual({ ok: true, value: 'C' });
+  });
+
+  it('handles an empty list', async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
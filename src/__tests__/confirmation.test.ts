@@ -0,0 +1,67 @@
+import { vi } from 'vitest';
+import { requestConfirmation } from '../confirmation.js';
+
+function context(options: { inputResponses?: Record<string, unknown>; elicitResult?: unknown }) {
+  return {
+    mcpReq: {
+      inputResponses: options.inputResponses,
+      elicitInput: vi.fn().mockResolvedValue(options.elicitResult),
+    },
+  } as never;
+}
+
+describe('requestConfirmation', () => {
+  it('asks for input on the first modern-era call and reads the answer on retry', async () => {
+    const first = await requestConfirmation(context({}), {
+      era: 'modern',
+      elicitationSupported: true,
+      message: 'Send it?',
+    });
+
+    expect(first.status).toBe('pending');
+    expect(first.status === 'pending' && first.result.inputRequests).toHaveProperty('confirm');
+
+    const accepted = await requestConfirmation(
+      context({ inputResponses: { confirm: { action: 'accept', content: { confirm: true } } } }),
+      { era: 'modern', elicitationSupported: true, message: 'Send it?' }
+    );
+    const declined = await requestConfirmation(
+      context({ inputResponses: { confirm: { action: 'accept', content: { confirm: false } } } }),
+      { era: 'modern', elicitationSupported: true, message: 'Send it?' }
+    );
+    const cancelled = await requestConfirmation(
+      context({ inputResponses: { confirm: { action: 'cancel' } } }),
+      { era: 'modern', elicitationSupported: true, message: 'Send it?' }
+    );
+
+    expect(accepted).toEqual({ status: 'confirmed' });
+    expect(declined).toEqual({ status: 'declined' });
+    expect(cancelled).toEqual({ status: 'declined' });
+  });
+
+  it('pushes an elicitation request on legacy connections', async () => {
+    const ctx = context({ elicitResult: { action: 'accept', content: { confirm: true } } });
+
+    const outcome = await requestConfirmation(ctx, {
+      era: 'legacy',
+      elicitationSupported: true,
+      message: 'Send it?',
+    });
+
+    expect(outcome).toEqual({ status: 'confirmed' });
+    expect(
+      (ctx as { mcpReq: { elicitInput: ReturnType<typeof vi.fn> } }).mcpReq.elicitInput
+    ).toHaveBeenCalledWith(expect.objectContaining({ message: 'Send it?' }));
+  });
+
+  it('skips the step when the client cannot elicit', async () => {
+    const ctx = context({});
+
+    await expect(
+      requestConfirmation(ctx, { era: 'legacy', elicitationSupported: false, message: 'Send?' })
+    ).resolves.toEqual({ status: 'unsupported' });
+    await expect(
+      requestConfirmation(ctx, { era: 'modern', elicitationSupported: false, message: 'Send?' })
+    ).resolves.toEqual({ status: 'unsupported' });
+  });
+});
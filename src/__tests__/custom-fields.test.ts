@@ -0,0 +1,90 @@
+import { findCustomField, validateCustomFieldValues } from '../custom-fields.js';
+import type { FreeScoutCustomField } from '../types.js';
+
+const definitions: FreeScoutCustomField[] = [
+  { id: 1, name: 'License key', type: 'single_line' },
+  { id: 2, name: 'Plugin version', type: 'dropdown', options: { '5': '3.46', '6': '3.47' } },
+  { id: 3, name: 'Seats', type: 'number' },
+  { id: 4, name: 'Renewal date', type: 'date', required: true },
+  { id: 5, name: 'Site URL', type: 'single_line' },
+];
+
+describe('custom field validation', () => {
+  it('finds fields by ID or case-insensitive name', () => {
+    expect(findCustomField(definitions, '3')?.name).toBe('Seats');
+    expect(findCustomField(definitions, 'plugin VERSION')?.id).toBe(2);
+    expect(findCustomField(definitions, 'Unknown')).toBeUndefined();
+  });
+
+  it('normalizes valid values into FreeScout field values', () => {
+    const values = validateCustomFieldValues(definitions, {
+      'License key': ' ABC-123 ',
+      'Plugin version': '3.47',
+      Seats: 5,
+      'Renewal date': '2026-12-31',
+      'Site URL': null,
+    });
+
+    expect(values).toEqual([
+      { id: 1, value: 'ABC-123' },
+      { id: 2, value: '6' },
+      { id: 3, value: '5' },
+      { id: 4, value: '2026-12-31' },
+      { id: 5, value: '' },
+    ]);
+  });
+
+  it('accepts dropdown option keys and array options', () => {
+    const values = validateCustomFieldValues(
+      [...definitions, { id: 6, name: 'Tier', type: 'dropdown', options: ['Free', 'Pro'] }],
+      { 'Plugin version': '5', Tier: 'pro' }
+    );
+
+    expect(values).toEqual([
+      { id: 2, value: '5' },
+      { id: 6, value: '1' },
+    ]);
+  });
+
+  it('reports every invalid value at once', () => {
+    expect(() =>
+      validateCustomFieldValues(definitions, {
+        'Plugin version': '2.0',
+        Seats: 'many',
+        'Renewal date': '2026-02-30',
+        Missing: 'x',
+      })
+    ).toThrow(
+      'Invalid custom field values: "Plugin version" must be one of: 3.46, 3.47; "Seats" must be a decimal number; "Renewal date" must be a date in YYYY-MM-DD format; Unknown custom field "Missing"'
+    );
+  });
+
+  it('accepts only plain decimal numbers', () => {
+    expect(validateCustomFieldValues(definitions, { Seats: '-2.50' })).toEqual([
+      { id: 3, value: '-2.50' },
+    ]);
+    for (const seats of ['0x10', '1e3', '0b11', 'Infinity', '1.']) {
+      expect(() => validateCustomFieldValues(definitions, { Seats: seats })).toThrow(
+        /"Seats" must be a decimal number/
+      );
+    }
+  });
+
+  it('saves numbers exactly as written', () => {
+    expect(validateCustomFieldValues(definitions, { Seats: ' 12345678901234567890 ' })).toEqual([
+      { id: 3, value: '12345678901234567890' },
+    ]);
+    expect(validateCustomFieldValues(definitions, { Seats: '1.50' })).toEqual([
+      { id: 3, value: '1.50' },
+    ]);
+    expect(validateCustomFieldValues(definitions, { Seats: '007' })).toEqual([
+      { id: 3, value: '007' },
+    ]);
+  });
+
+  it('refuses to clear required fields', () => {
+    expect(() => validateCustomFieldValues(definitions, { 'Renewal date': null })).toThrow(
+      /"Renewal date" is required/
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  createFreeScoutError,
+  FreeScoutAPIError,
+  FreeScoutAuthError,
+  FreeScoutNotFoundError,
+  FreeScoutRateLimitError,
+  FreeScoutServerError,
+  FreeScoutValidationError,
+} from '../errors.js';
+
+const request = { method: 'PUT', endpoint: '/conversations/123' };
+
+describe('createFreeScoutError', () => {
+  it('maps status codes to typed errors with the request and parsed body', () => {
+    const notFound = createFreeScoutError({ status: 404 }, '{"message":"Not found"}', request);
+
+    expect(notFound).toBeInstanceOf(FreeScoutNotFoundError);
+    expect(notFound).toMatchObject({
+      name: 'FreeScoutNotFoundError',
+      status: 404,
+      method: 'PUT',
+      endpoint: '/conversations/123',
+      body: { message: 'Not found' },
+      detail: 'Not found',
+      message: 'FreeScout API error: 404 - {"message":"Not found"}',
+    });
+    expect(createFreeScoutError({ status: 401 }, '', request)).toBeInstanceOf(FreeScoutAuthError);
+    expect(createFreeScoutError({ status: 403 }, '', request)).toBeInstanceOf(FreeScoutAuthError);
+    expect(createFreeScoutError({ status: 422 }, '', request)).toBeInstanceOf(
+      FreeScoutValidationError
+    );
+    expect(createFreeScoutError({ status: 409 }, 'Conflict', request).constructor).toBe(
+      FreeScoutAPIError
+    );
+  });
+
+  it('retries rate limits and gateway errors only', () => {
+    const rateLimit = createFreeScoutError({ status: 429 }, '', request, 2000);
+
+    expect(rateLimit).toBeInstanceOf(FreeScoutRateLimitError);
+    expect(rateLimit).toMatchObject({ retryable: true, retryAfterMs: 2000 });
+    expect(createFreeScoutError({ status: 503 }, '', request)).toMatchObject({ retryable: true });
+    expect(createFreeScoutError({ status: 500 }, '', request)).toBeInstanceOf(FreeScoutServerError);
+    expect(createFreeScoutError({ status: 500 }, '', request).retryable).toBe(false);
+    const post = { ...request, method: 'POST' };
+    expect(createFreeScoutError({ status: 504 }, '', post).retryable).toBe(false);
+    expect(createFreeScoutError({ status: 503 }, '', post).retryable).toBe(true);
+    expect(createFreeScoutError({ status: 404 }, 'Error 502 in subject', request).retryable).toBe(
+      false
+    );
+  });
+
+  it('lists field errors from validation responses', () => {
+    const embedded = createFreeScoutError(
+      { status: 400 },
+      JSON.stringify({
+        message: 'Validation failed',
+        _embedded: { errors: [{ path: 'customer.email', message: 'is invalid' }] },
+      }),
+      request
+    ) as FreeScoutValidationError;
+    const keyed = createFreeScoutError(
+      { status: 422 },
+      JSON.stringify({ errors: { subject: ['is required'] } }),
+      request
+    ) as FreeScoutValidationError;
+
+    expect(embedded.fieldErrors).toEqual(['customer.email: is invalid']);
+    expect(keyed.fieldErrors).toEqual(['subject: is required']);
+    expect(
+      (createFreeScoutError({ status: 400 }, 'Bad', request) as FreeScoutValidationError)
+        .fieldErrors
+    ).toEqual([]);
+  });
+});
@@ -1,4 +1,13 @@
+import {
+  FreeScoutNetworkError,
+  FreeScoutNotFoundError,
+  FreeScoutResponseValidationError,
+  FreeScoutServerError,
+  FreeScoutTimeoutError,
+} from '../errors.js';
 import { FreeScoutAPI } from '../freescout-api.js';
+import { ResponseCache } from '../response-cache.js';
+import { ResponseValidator } from '../response-validation.js';
 import { ConversationSchema, ThreadSchema, CustomerSchema } from '../types.js';
 import { vi } from 'vitest';
 
@@ -67,7 +76,7 @@ describe('FreeScoutAPI', () => {
       const result = await api.getConversation('123');
 
       expect(mockFetch).toHaveBeenCalledWith(
-        `${mockBaseUrl}/api/conversations/123?embed=threads`,
+        `${mockBaseUrl}/api/conversations/123?embed=threads,tags`,
         expect.objectContaining({
           headers: expect.objectContaining({
             'X-FreeScout-API-Key': mockApiKey,
@@ -103,11 +112,77 @@ describe('FreeScoutAPI', () => {
       await expect(api.getConversation('999')).rejects.toThrow(/404/);
     });
 
+    it('raises typed errors and does not retry on status codes in the message text', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Conversation about error 502 not found',
+      });
+
+      const error = await api.getConversation('999').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(FreeScoutNotFoundError);
+      expect(error).toMatchObject({
+        status: 404,
+        method: 'GET',
+        endpoint: '/conversations/999?embed=threads,tags',
+        body: 'Conversation about error 502 not found',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('wraps connection failures in a retryable network error', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(api.getConversation('123')).rejects.toBeInstanceOf(FreeScoutNetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not resend a POST whose connection failed after it was sent', async () => {
+      mockFetch.mockRejectedValue(new TypeError('socket hang up'));
+
+      const error = await api
+        .addThread('123', 'message', 'Hello', 1)
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(FreeScoutNetworkError);
+      expect(error).toMatchObject({ method: 'POST', retryable: false });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a gateway error only for requests that are safe to repeat', async () => {
+      const badGateway = {
+        ok: false,
+        status: 502,
+        headers: new Headers(),
+        text: async () => 'Bad Gateway',
+      };
+      mockFetch.mockResolvedValueOnce(badGateway).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockConversationResponse,
+      });
+
+      await expect(api.getConversation('123')).resolves.toMatchObject({ id: 123 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue(badGateway);
+      const error = await api
+        .addThread('123', 'message', 'Hello', 1)
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(FreeScoutServerError);
+      expect(error).toMatchObject({ method: 'POST', status: 502, retryable: false });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle rate limiting with exponential backoff', async () => {
       mockFetch
         .mockResolvedValueOnce({
           ok: false,
           status: 429,
+          headers: new Headers(),
           text: async () => 'Rate limited',
         })
         .mockResolvedValueOnce({
@@ -121,6 +196,27 @@ describe('FreeScoutAPI', () => {
       expect(result.id).toBe(123);
     });
 
+    it('should wait for Retry-After before retrying a rate-limited request', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '0.05' }),
+          text: async () => 'Rate limited',
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => mockConversationResponse,
+        });
+      const started = Date.now();
+
+      await api.getConversation('123');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    });
+
     it('should timeout after max retries', async () => {
       mockFetch.mockRejectedValue(new Error('ETIMEDOUT'));
 
@@ -253,6 +349,37 @@ describe('FreeScoutAPI', () => {
       expect(url.searchParams.get('state')).toBeNull();
     });
 
+    it('should filter by customer and embed threads when requested', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockSearchResponse,
+      });
+
+      await api.searchConversations(
+        { customerId: 10, customerEmail: ' casey@example.com ' },
+        { embedThreads: true }
+      );
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('customerId')).toBe('10');
+      expect(url.searchParams.get('customerEmail')).toBe('casey@example.com');
+      expect(url.searchParams.get('embed')).toBe('threads');
+    });
+
+    it('should filter by tags', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockSearchResponse,
+      });
+
+      await api.searchConversations({ status: 'active', tags: ['refund', ' vip '] });
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('tag')).toBe('refund,vip');
+    });
+
     it('should respect pagination parameters', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -265,6 +392,96 @@ describe('FreeScoutAPI', () => {
       const url = mockFetch.mock.calls[0][0] as string;
       expect(url).toContain('page=2');
     });
+
+    it('should search subjects, folders, and sort order on the server', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockSearchResponse,
+      });
+
+      await api.searchConversations({
+        textSearch: ' refund ',
+        subjectOnly: true,
+        folderId: 12,
+        sortField: 'waitingSince',
+        sortOrder: 'asc',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('subject')).toBe('refund');
+      expect(url.searchParams.has('query')).toBe(false);
+      expect(url.searchParams.get('folderId')).toBe('12');
+      expect(url.searchParams.get('sortField')).toBe('waitingSince');
+      expect(url.searchParams.get('sortOrder')).toBe('asc');
+    });
+
+    it('should apply date ranges and waiting-on to the returned page', async () => {
+      const thread = (id: number, type: string, created_at: string, state = 'published') => ({
+        id,
+        type,
+        state,
+        body: 'Body',
+        created_at,
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          ...mockSearchResponse,
+          _embedded: {
+            conversations: [
+              {
+                ...mockSearchResponse._embedded.conversations[0],
+                _embedded: {
+                  threads: [
+                    thread(1, 'message', '2024-01-01T00:00:00Z'),
+                    thread(2, 'customer', '2024-01-02T00:00:00Z'),
+                    thread(3, 'message', '2024-01-03T00:00:00Z', 'draft'),
+                  ],
+                },
+              },
+              {
+                ...mockSearchResponse._embedded.conversations[1],
+                _embedded: {
+                  threads: [
+                    thread(4, 'customer', '2024-01-01T00:00:00Z'),
+                    thread(5, 'message', '2024-01-02T00:00:00Z'),
+                  ],
+                },
+              },
+              {
+                ...mockSearchResponse._embedded.conversations[1],
+                id: 3,
+                updated_at: '2024-03-01T00:00:00Z',
+              },
+            ],
+          },
+        }),
+      });
+
+      const result = await api.searchConversations({
+        updatedBefore: '2024-02-01',
+        createdSince: '2023-12-01',
+        waitingOn: 'us',
+      });
+
+      expect(result._embedded?.conversations).toEqual([
+        { ...mockSearchResponse._embedded.conversations[0], _embedded: {} },
+      ]);
+      expect(result.page?.total_elements).toBe(2);
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('embed')).toBe('threads');
+      expect(url.searchParams.get('createdSince')).toBe('2023-12-01');
+      expect(url.searchParams.has('updatedBefore')).toBe(false);
+    });
+
+    it('should reject dates it cannot read before searching', async () => {
+      await expect(api.searchConversations({ createdBefore: 'last week' })).rejects.toThrow(
+        'createdBefore must be an ISO date or a relative time like "7d", got "last week"'
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateConversation', () => {
@@ -319,6 +536,80 @@ describe('FreeScoutAPI', () => {
     });
   });
 
+  describe('createConversation', () => {
+    it('should create a draft conversation with a formatted first thread', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({ id: 500, number: 9001, subject: 'Refund', status: 'active' }),
+      });
+
+      const result = await api.createConversation({
+        mailboxId: 4,
+        subject: 'Refund',
+        customer: { email: 'casey@example.com' },
+        threadType: 'message',
+        text: '**Refund** processed',
+        userId: 7,
+        recipients: { cc: ['billing@example.com'] },
+        assignTo: 7,
+        status: 'pending',
+        tags: ['refund'],
+        draft: true,
+      });
+
+      expect(result.id).toBe(500);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/conversations`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      const body = JSON.parse((mockFetch.mock.calls[0][1]?.body as string) || '{}');
+      expect(body).toEqual({
+        type: 'email',
+        mailboxId: 4,
+        subject: 'Refund',
+        customer: { email: 'casey@example.com' },
+        threads: [
+          {
+            type: 'message',
+            text: '<p><strong>Refund</strong> processed</p>',
+            user: 7,
+            cc: ['billing@example.com'],
+          },
+        ],
+        assignTo: 7,
+        status: 'pending',
+        tags: ['refund'],
+        state: 'draft',
+      });
+    });
+
+    it('should attribute customer threads to the customer instead of a user', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({ id: 501, number: 9002, subject: 'Question', status: 'active' }),
+      });
+
+      await api.createConversation({
+        mailboxId: 4,
+        subject: 'Question',
+        customer: { id: 10 },
+        threadType: 'customer',
+        text: 'Forwarded question',
+        userId: 7,
+      });
+
+      const body = JSON.parse((mockFetch.mock.calls[0][1]?.body as string) || '{}');
+      expect(body.threads[0]).toEqual({
+        type: 'customer',
+        text: 'Forwarded question',
+        customer: { id: 10 },
+      });
+      expect(body.state).toBeUndefined();
+    });
+  });
+
   describe('addThread', () => {
     it('should add a thread to a conversation', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -370,6 +661,28 @@ describe('FreeScoutAPI', () => {
       expect(callBody.state).toBe('draft');
     });
 
+    it('should include attachment uploads when provided', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({
+          id: 460,
+          type: 'note',
+          attachments: [{ id: 9, file_name: 'a.log', mime_type: 'text/plain', size: 2 }],
+        }),
+      });
+
+      const thread = await api.addThread('123', 'note', 'See log', 1, undefined, undefined, [
+        { fileName: 'a.log', mimeType: 'text/plain', data: 'aGk=' },
+      ]);
+
+      const callBody = JSON.parse((mockFetch.mock.calls[0][1]?.body as string) || '{}');
+      expect(callBody.attachments).toEqual([
+        { fileName: 'a.log', mimeType: 'text/plain', data: 'aGk=' },
+      ]);
+      expect(thread.attachments?.[0].id).toBe(9);
+    });
+
     it('should convert markdown to HTML for notes', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -411,6 +724,605 @@ describe('FreeScoutAPI', () => {
     });
   });
 
+  describe('downloadAttachment', () => {
+    function binaryResponse(bytes: string, headers: Record<string, string> = {}) {
+      return new Response(bytes, { status: 200, headers });
+    }
+
+    function streamedResponse(chunks: string[]) {
+      const pulled: string[] = [];
+      const body = new ReadableStream<Uint8Array>(
+        {
+          pull(controller) {
+            const chunk = chunks[pulled.length];
+            if (chunk === undefined) {
+              controller.close();
+              return;
+            }
+            pulled.push(chunk);
+            controller.enqueue(new TextEncoder().encode(chunk));
+          },
+        },
+        // Pull only when read, so the test sees exactly what was consumed
+        { highWaterMark: 0 }
+      );
+      return { response: new Response(body, { status: 200 }), pulled };
+    }
+
+    it('should authenticate downloads from the FreeScout host', async () => {
+      mockFetch.mockResolvedValueOnce(binaryResponse('log line', { 'content-type': 'text/plain' }));
+
+      const result = await api.downloadAttachment('/storage/attachment/1/debug.log', 100);
+
+      expect(result.data.toString('utf8')).toBe('log line');
+      expect(result.mimeType).toBe('text/plain');
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/storage/attachment/1/debug.log`,
+        expect.objectContaining({
+          headers: { 'X-FreeScout-API-Key': mockApiKey },
+        })
+      );
+    });
+
+    it('should not send the API key to other hosts', async () => {
+      mockFetch.mockResolvedValueOnce(binaryResponse('image'));
+
+      await api.downloadAttachment('https://cdn.example.com/screenshot.png', 100);
+
+      expect(mockFetch.mock.calls[0][1]?.headers).toEqual({});
+    });
+
+    it('should enforce the size limit without retrying', async () => {
+      mockFetch
+        .mockResolvedValueOnce(binaryResponse('x'.repeat(10), { 'content-length': '10' }))
+        .mockResolvedValueOnce(binaryResponse('x'.repeat(10)));
+
+      await expect(api.downloadAttachment('/a.log', 5)).rejects.toThrow(/download limit of 5/);
+      await expect(api.downloadAttachment('/a.log', 5)).rejects.toThrow(/download limit of 5/);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop reading an undeclared body once it passes the limit', async () => {
+      const { response, pulled } = streamedResponse(['xxxx', 'xxxx', 'xxxx', 'xxxx']);
+      mockFetch.mockResolvedValueOnce(response);
+
+      await expect(api.downloadAttachment('/a.log', 6)).rejects.toThrow(/download limit of 6/);
+      expect(pulled).toHaveLength(2);
+    });
+
+    it('should give up on a body that stops arriving', async () => {
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('partial'));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+      mockFetch.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+      const error = await api.downloadAttachment('/a.log', 100).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(FreeScoutTimeoutError);
+      expect(error).toMatchObject({ timeoutMs: 250, endpoint: `${mockBaseUrl}/a.log` });
+      expect(cancelled).toBe(true);
+    });
+
+    it('should return the first bytes of a body that passes the limit when truncating', async () => {
+      const { response, pulled } = streamedResponse(['line 1\n', 'line 2\n', 'line 3\n']);
+      mockFetch.mockResolvedValueOnce(response);
+
+      const result = await api.downloadAttachment('/a.log', 10, { truncate: true });
+
+      expect(result.data.toString('utf8')).toBe('line 1\nlin');
+      expect(result.truncated).toBe(true);
+      expect(pulled).toHaveLength(2);
+    });
+  });
+
+  describe('users', () => {
+    it('should load users across every page', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            _embedded: { users: [{ id: 1, email: 'a@example.com' }] },
+            page: { size: 1, total_elements: 2, total_pages: 2, number: 1 },
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            _embedded: { users: [{ id: 2, email: 'b@example.com' }] },
+            page: { size: 1, total_elements: 2, total_pages: 2, number: 2 },
+          }),
+        });
+
+      const users = await api.getAllUsers();
+
+      expect(users.map((user) => user.id)).toEqual([1, 2]);
+      expect(mockFetch.mock.calls[0][0]).toBe(`${mockBaseUrl}/api/users?page=1`);
+      expect(mockFetch.mock.calls[1][0]).toBe(`${mockBaseUrl}/api/users?page=2`);
+    });
+  });
+
+  describe('custom fields', () => {
+    it('should list mailbox custom field definitions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          _embedded: {
+            custom_fields: [{ id: 1, name: 'Plugin version', type: 'dropdown', options: {} }],
+          },
+        }),
+      });
+
+      const fields = await api.getCustomFields(4);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`${mockBaseUrl}/api/mailboxes/4/custom_fields`);
+      expect(fields.map((field) => field.name)).toEqual(['Plugin version']);
+    });
+
+    it('should save custom field values', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await api.setCustomFields('123', [{ id: 1, value: '6' }]);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/conversations/123/custom_fields`,
+        expect.objectContaining({ method: 'PUT' })
+      );
+      const body = JSON.parse((mockFetch.mock.calls[0][1]?.body as string) || '{}');
+      expect(body).toEqual({ customFields: [{ id: 1, value: '6' }] });
+    });
+  });
+
+  describe('tags', () => {
+    const taggedConversation = {
+      id: 123,
+      number: 456,
+      subject: 'Refund request',
+      status: 'active',
+      _embedded: {
+        tags: [
+          { id: 1, name: 'refund' },
+          { id: 2, name: 'VIP' },
+        ],
+      },
+    };
+
+    it('should list tags', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ _embedded: { tags: [{ id: 1, name: 'refund', counter: 3 }] } }),
+      });
+
+      const result = await api.getTags(2);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`${mockBaseUrl}/api/tags?page=2`);
+      expect(result._embedded?.tags?.[0].name).toBe('refund');
+    });
+
+    it('should read tag names from the conversation', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => taggedConversation,
+      });
+
+      await expect(api.getConversationTags('123')).resolves.toEqual(['refund', 'VIP']);
+      expect(mockFetch.mock.calls[0][0]).toBe(`${mockBaseUrl}/api/conversations/123?embed=tags`);
+    });
+
+    it('refuses to replace tags when FreeScout does not list them', async () => {
+      const { _embedded: _tags, ...untagged } = taggedConversation;
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => untagged });
+
+      await expect(api.updateConversationTags('123', { add: ['vip'] })).rejects.toThrow(
+        'FreeScout returned ticket 123 without its tags'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add and remove tags case-insensitively with one replacement', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => taggedConversation })
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      const tags = await api.updateConversationTags('123', {
+        add: ['Refund', 'escalated'],
+        remove: ['vip'],
+      });
+
+      expect(tags).toEqual(['refund', 'escalated']);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${mockBaseUrl}/api/conversations/123/tags`,
+        expect.objectContaining({ method: 'PUT' })
+      );
+      const body = JSON.parse((mockFetch.mock.calls[1][1]?.body as string) || '{}');
+      expect(body).toEqual({ tags: ['refund', 'escalated'] });
+    });
+  });
+
+  describe('mergeConversations', () => {
+    it('should merge the source conversation into the target', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await api.mergeConversations('124', '123', 7);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/conversations/123/merge`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+        conversationIds: [124],
+        byUser: 7,
+      });
+    });
+  });
+
+  describe('response cache', () => {
+    let cache: ResponseCache;
+    let now: number;
+    const conversation = { id: 123, number: 456, subject: 'Cached', status: 'active' };
+    const jsonResponse = (body: unknown, headers: Record<string, string> = {}) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(headers),
+      json: async () => body,
+    });
+
+    beforeEach(() => {
+      now = 0;
+      cache = new ResponseCache({ ttlMs: 1000 }, () => now);
+      api = new FreeScoutAPI(
+        mockBaseUrl,
+        mockApiKey,
+        { maxRetries: 0, initialDelay: 0, maxDelay: 0, timeout: 250 },
+        { cache }
+      );
+    });
+
+    it('serves repeated reads of conversations, mailboxes, and users from the cache', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(conversation))
+        .mockResolvedValueOnce(jsonResponse({ _embedded: { mailboxes: [] } }))
+        .mockResolvedValueOnce(jsonResponse({ _embedded: { users: [] } }));
+
+      await api.getConversation('123');
+      await api.getMailboxes();
+      await api.getUsers(1);
+
+      expect(await api.getConversation('123')).toEqual(conversation);
+      await api.getMailboxes();
+      await api.getUsers(1);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('revalidates stale entries with their ETag and Last-Modified validators', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(conversation, {
+          ETag: '"v1"',
+          'Last-Modified': 'Wed, 14 Oct 2026 00:00:00 GMT',
+        })
+      );
+      await api.getConversation('123');
+
+      now = 1000;
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+      expect(await api.getConversation('123')).toEqual(conversation);
+      expect(mockFetch.mock.calls[1][1].headers).toMatchObject({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 14 Oct 2026 00:00:00 GMT',
+      });
+
+      // The 304 made the entry fresh again
+      await api.getConversation('123');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('invalidates a conversation after writes to it', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(conversation));
+      await api.getConversation('123');
+      await api.getConversation('12');
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 201, json: async () => ({ id: 9 }) });
+      await api.addThread('123', 'note', 'Checked');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+      await api.updateConversation('12', { status: 'closed' });
+
+      await api.getConversation('123');
+      await api.getConversation('12');
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+
+    it('reads tags fresh before replacing them', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ ...conversation, _embedded: { tags: [{ id: 1, name: 'old' }] } })
+      );
+      await api.getConversationTags('123');
+
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({ ...conversation, _embedded: { tags: [{ id: 2, name: 'new' }] } })
+        )
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      expect(await api.updateConversationTags('123', { add: ['vip'] })).toEqual(['new', 'vip']);
+    });
+
+    it('revalidates cached drafts before replacing one', async () => {
+      const draft = {
+        id: 5,
+        type: 'message',
+        state: 'draft',
+        created_by: { id: 7, type: 'user' },
+      };
+      mockFetch.mockResolvedValueOnce(jsonResponse(conversation, { ETag: '"v1"' }));
+      await api.getConversation('123');
+
+      // A draft saved in the web UI within the TTL
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({ ...conversation, _embedded: { threads: [draft] } }, { ETag: '"v2"' })
+        )
+        .mockResolvedValueOnce({ ok: true, status: 204 })
+        .mockResolvedValueOnce(
+          jsonResponse({ ...conversation, _embedded: { threads: [{ ...draft, body: 'New' }] } })
+        );
+
+      const saved = await api.createDraftReply('123', 'New', 7, {}, undefined, {
+        replaceExisting: true,
+      });
+
+      expect(saved).toMatchObject({ id: 5, body: 'New' });
+      expect(mockFetch.mock.calls[1][1].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+      expect(mockFetch.mock.calls[2][1].method).toBe('PUT');
+    });
+  });
+
+  describe('response validation', () => {
+    const jsonResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: async () => body,
+    });
+    const createApi = (validator: ResponseValidator, cache?: ResponseCache) =>
+      new FreeScoutAPI(
+        mockBaseUrl,
+        mockApiKey,
+        { maxRetries: 2, initialDelay: 0, maxDelay: 0, timeout: 250 },
+        { validator, cache }
+      );
+
+    it('rejects drifted responses in strict mode without retrying or caching them', async () => {
+      const cache = new ResponseCache();
+      api = createApi(new ResponseValidator('strict'), cache);
+      mockFetch.mockResolvedValue(
+        jsonResponse({ id: 123, number: '456', subject: 'Drifted', status: 'active' })
+      );
+
+      await expect(api.getConversation('123')).rejects.toMatchObject({
+        constructor: FreeScoutResponseValidationError,
+        method: 'GET',
+        endpoint: '/conversations/123?embed=threads,tags',
+        drift: [expect.objectContaining({ path: 'number' })],
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(cache.size).toBe(0);
+    });
+
+    it('passes unknown fields through and reports drift in warn mode', async () => {
+      const log = vi.fn();
+      api = createApi(new ResponseValidator('warn', log));
+      const customer = { id: 5, email: 'not-an-email', photoUrl: 'https://example.com/5.png' };
+      mockFetch.mockResolvedValueOnce(jsonResponse(customer));
+
+      expect(await api.getCustomer(5)).toEqual(customer);
+      expect(log).toHaveBeenCalledWith(
+        expect.stringMatching(/^Response drift on GET \/customers\/5: email: /)
+      );
+    });
+
+    it('checks mailbox lists in either shape', async () => {
+      api = createApi(new ResponseValidator('strict'));
+      const mailboxes = [{ id: 4, name: 'Support', email: 'support@example.com' }];
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(mailboxes))
+        .mockResolvedValueOnce(jsonResponse({ _embedded: { mailboxes } }))
+        .mockResolvedValueOnce(jsonResponse({ _embedded: { mailboxes: [{ name: 'No ID' }] } }));
+
+      expect(await api.getMailboxes()).toEqual(mailboxes);
+      expect(await api.getMailboxes()).toEqual({ _embedded: { mailboxes } });
+      await expect(api.getMailboxes()).rejects.toBeInstanceOf(FreeScoutResponseValidationError);
+    });
+  });
+
+  describe('drafts', () => {
+    const conversationWithDrafts = {
+      id: 123,
+      number: 456,
+      subject: 'License reset',
+      status: 'active',
+      _embedded: {
+        threads: [
+          {
+            id: 3,
+            type: 'message',
+            state: 'draft',
+            created_by: { id: 7, type: 'user' },
+            created_at: '2026-08-14T10:00:00Z',
+          },
+          {
+            id: 2,
+            type: 'message',
+            state: 'published',
+            created_by: { id: 7, type: 'user' },
+            created_at: '2026-08-14T09:00:00Z',
+          },
+          {
+            id: 1,
+            type: 'message',
+            state: 'draft',
+            created_by: { id: 8, type: 'user' },
+            created_at: '2026-08-14T08:00:00Z',
+          },
+        ],
+      },
+    };
+
+    it('should list only drafts, oldest first', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => conversationWithDrafts,
+      });
+
+      const drafts = await api.getDrafts('123');
+
+      expect(drafts.map((draft) => draft.id)).toEqual([1, 3]);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${mockBaseUrl}/api/conversations/123?embed=threads,tags`
+      );
+    });
+
+    it("should update the user's own draft instead of stacking a new one", async () => {
+      const updated = {
+        ...conversationWithDrafts,
+        _embedded: {
+          threads: conversationWithDrafts._embedded.threads.map((thread) =>
+            thread.id === 3 ? { ...thread, body: '<p>Your license was reset.</p>', cc: [] } : thread
+          ),
+        },
+      };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => conversationWithDrafts })
+        .mockResolvedValueOnce({ ok: true, status: 204 })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => updated });
+
+      const draft = await api.createDraftReply(
+        '123',
+        'Your license was reset.',
+        7,
+        { cc: [] },
+        undefined,
+        { replaceExisting: true, fallbackRecipients: { to: ['customer@example.com'] } }
+      );
+
+      expect(draft).toMatchObject({ id: 3, body: '<p>Your license was reset.</p>', cc: [] });
+      expect(mockFetch.mock.calls[1][0]).toBe(`${mockBaseUrl}/api/conversations/123/threads/3`);
+      expect(mockFetch.mock.calls[1][1]?.method).toBe('PUT');
+      // The fallback recipients are for new drafts, so the draft keeps its own
+      const body = JSON.parse((mockFetch.mock.calls[1][1]?.body as string) || '{}');
+      expect(body).toEqual({ text: 'Your license was reset.', cc: [] });
+    });
+
+    it('should create a new draft when the user has none to replace', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => conversationWithDrafts })
+        .mockResolvedValueOnce({ ok: true, status: 201, json: async () => ({ id: 9 }) });
+
+      const draft = await api.createDraftReply('123', 'Hello', 9, { cc: [] }, undefined, {
+        replaceExisting: true,
+        fallbackRecipients: { to: ['customer@example.com'], cc: ['team@example.com'] },
+      });
+
+      expect(draft.id).toBe(9);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${mockBaseUrl}/api/conversations/123/threads`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      const body = JSON.parse(mockFetch.mock.calls[1][1]?.body as string);
+      expect(body).toMatchObject({ to: ['customer@example.com'], cc: [] });
+    });
+
+    it('should publish and delete drafts', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 204 })
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await api.publishDraft('123', 3);
+      await api.deleteThread('123', 1);
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+        state: 'published',
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${mockBaseUrl}/api/conversations/123/threads/1`,
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('customers', () => {
+    const customers = [
+      { id: 10, email: 'casey@example.com', first_name: 'Casey', company: 'Example Co' },
+      { id: 11, email: 'casey@other.example', first_name: 'Casey', company: 'Other Inc' },
+    ];
+
+    it('should fetch a customer by ID', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => customers[0],
+      });
+
+      const result = await api.getCustomer(10);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`${mockBaseUrl}/api/customers/10`);
+      expect(CustomerSchema.parse(result).id).toBe(10);
+    });
+
+    it('should search customers with explicit filters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ _embedded: { customers } }),
+      });
+
+      await api.searchCustomers({ email: ' casey@example.com ', firstName: 'Casey', pageSize: 5 });
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.pathname).toBe('/api/customers');
+      expect(url.searchParams.get('email')).toBe('casey@example.com');
+      expect(url.searchParams.get('firstName')).toBe('Casey');
+      expect(url.searchParams.get('pageSize')).toBe('5');
+      expect(url.searchParams.get('company')).toBeNull();
+    });
+
+    it('should apply company matching to the returned page', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ _embedded: { customers } }),
+      });
+
+      const result = await api.searchCustomers({ firstName: 'Casey', company: 'example' });
+
+      expect(result._embedded?.customers?.map((customer) => customer.id)).toEqual([10]);
+    });
+
+    it('should update customer profile fields', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await api.updateCustomer(10, { firstName: 'Casey', company: 'Example Co' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/customers/10`,
+        expect.objectContaining({ method: 'PUT' })
+      );
+      const body = JSON.parse((mockFetch.mock.calls[0][1]?.body as string) || '{}');
+      expect(body).toEqual({ firstName: 'Casey', company: 'Example Co' });
+    });
+  });
+
   describe('Schema Validation', () => {
     it('should validate conversation schema with all required fields', () => {
       const validConversation = {
@@ -476,8 +1388,204 @@ describe('FreeScoutAPI', () => {
     });
 
     it('should parse various ticket input formats', () => {
-      expect(api.parseTicketInput('123')).toBe('123');
-      expect(api.parseTicketInput('https://test.com/conversation/456')).toBe('456');
+      expect(api.parseTicketReference('123')).toEqual({ kind: 'id', value: 123 });
+      expect(api.parseTicketReference('https://test.com/conversation/456')).toEqual({
+        kind: 'id',
+        value: 456,
+      });
+      expect(api.parseTicketReference('id:789')).toEqual({ kind: 'id', value: 789 });
+      expect(api.parseTicketReference('#4521')).toEqual({ kind: 'number', value: 4521 });
+      expect(api.parseTicketReference('Number: 4521')).toEqual({ kind: 'number', value: 4521 });
+      expect(api.parseTicketReference('ticket #4521')).toEqual({ kind: 'number', value: 4521 });
+      expect(() => api.parseTicketReference('latest')).toThrow('Could not extract ticket ID');
+    });
+  });
+
+  describe('ticket resolution', () => {
+    const jsonResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: async () => body,
+    });
+    const conversation = { id: 123, number: 4521, subject: 'Numbered', status: 'active' };
+
+    it('looks up ticket numbers with a search and remembers the ID', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          _embedded: { conversations: [{ ...conversation, id: 99, number: 45210 }, conversation] },
+        })
+      );
+
+      expect(await api.resolveTicket('#4521')).toEqual({ id: '123', number: 4521 });
+      expect(await api.resolveTicket('number:4521')).toEqual({ id: '123', number: 4521 });
+      expect(await api.resolveTicket('id:123')).toEqual({ id: '123', number: 4521 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.pathname).toBe('/api/conversations');
+      expect(url.searchParams.get('number')).toBe('4521');
+    });
+
+    it('loads a ticket given by ID once and returns it with its number', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(conversation));
+
+      expect(await api.resolveTicket('123')).toEqual({ id: '123', number: 4521, conversation });
+      expect(await api.resolveTicket('https://test.freescout.com/conversation/123')).toEqual({
+        id: '123',
+        number: 4521,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${mockBaseUrl}/api/conversations/123?embed=threads,tags`
+      );
+    });
+
+    it('reports unknown ticket numbers as not found', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ _embedded: { conversations: [] } }));
+
+      await expect(api.resolveTicket('#4521')).rejects.toMatchObject({
+        constructor: FreeScoutNotFoundError,
+        message: 'No ticket with number #4521 was found',
+        endpoint: '/conversations?number=4521',
+      });
+    });
+  });
+
+  describe('iterateConversations', () => {
+    const pageResponse = (ids: number[], number: number, totalPages: number) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: async () => ({
+        _embedded: {
+          conversations: ids.map((id) => ({ id, number: id, subject: 'Paged', status: 'active' })),
+        },
+        page: { size: 2, total_elements: 5, total_pages: totalPages, number },
+      }),
+    });
+    const pageParams = () =>
+      mockFetch.mock.calls.map(([url]) => new URL(url as string).searchParams.get('page'));
+
+    it('yields every page until the last one', async () => {
+      mockFetch
+        .mockResolvedValueOnce(pageResponse([1, 2], 1, 3))
+        .mockResolvedValueOnce(pageResponse([3, 4], 2, 3))
+        .mockResolvedValueOnce(pageResponse([5], 3, 3));
+
+      const pages = [];
+      for await (const page of api.iterateConversations({ status: 'active', pageSize: 2 })) {
+        pages.push(page);
+      }
+
+      expect(pages.map((page) => page.conversations.map((c) => c.id))).toEqual([
+        [1, 2],
+        [3, 4],
+        [5],
+      ]);
+      expect(pages[2]).toMatchObject({ page: 3, totalPages: 3, totalCount: 5 });
+      expect(pageParams()).toEqual([null, '2', '3']);
+    });
+
+    it('starts at the requested page and stops when the caller does', async () => {
+      mockFetch.mockResolvedValueOnce(pageResponse([3, 4], 2, 3));
+
+      for await (const page of api.iterateConversations({ page: 2, pageSize: 2 })) {
+        expect(page.page).toBe(2);
+        break;
+      }
+
+      expect(pageParams()).toEqual(['2']);
+    });
+
+    it('keeps paging past pages that client-side filters emptied', async () => {
+      mockFetch
+        .mockResolvedValueOnce(pageResponse([1, 2], 1, 2))
+        .mockResolvedValueOnce(pageResponse([3], 2, 2));
+
+      const pages = [];
+      for await (const page of api.iterateConversations({ createdBefore: '2024-01-01' })) {
+        pages.push(page);
+      }
+
+      expect(pages.map((page) => page.conversations)).toEqual([[], []]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at the first page past a createdBefore date when sorted oldest first', async () => {
+      const dated = (id: number, createdAt: string) => ({
+        id,
+        number: id,
+        subject: 'Paged',
+        status: 'active',
+        created_at: createdAt,
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({
+          _embedded: {
+            conversations: [dated(1, '2023-12-01T00:00:00Z'), dated(2, '2024-02-01T00:00:00Z')],
+          },
+          page: { size: 2, total_elements: 10, total_pages: 5, number: 1 },
+        }),
+      });
+
+      const pages = [];
+      for await (const page of api.iterateConversations({ createdBefore: '2024-01-01' })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0]).toMatchObject({ conversations: [{ id: 1 }], hasMore: false });
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('sortField')).toBe('createdAt');
+      expect(url.searchParams.get('sortOrder')).toBe('asc');
+    });
+
+    it('stops after maxPages pages and reports that more remain', async () => {
+      mockFetch
+        .mockResolvedValueOnce(pageResponse([1, 2], 1, 3))
+        .mockResolvedValueOnce(pageResponse([3, 4], 2, 3));
+
+      const pages = [];
+      for await (const page of api.iterateConversations({ pageSize: 2 }, { maxPages: 2 })) {
+        pages.push(page);
+      }
+
+      expect(pages.map((page) => page.hasMore)).toEqual([true, true]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops before the next request once the signal is aborted', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(pageResponse([1, 2], 1, 3));
+
+      const pages = api.iterateConversations({ pageSize: 2 }, { signal: controller.signal });
+      await pages.next();
+      controller.abort();
+
+      await expect(pages.next()).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels the request in flight without retrying it', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(
+        (_url: string, init?: RequestInit) =>
+          new Promise((_, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+      );
+
+      const pages = api.iterateConversations({}, { signal: controller.signal });
+      const first = pages.next();
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledOnce());
+      controller.abort();
+
+      await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).toHaveBeenCalledOnce();
     });
   });
 
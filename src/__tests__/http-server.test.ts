@@ -0,0 +1,217 @@
+import { McpServer, type AuthInfo } from '@modelcontextprotocol/server';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { vi } from 'vitest';
+import {
+  callerIdentity,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  isHttpTransportRequested,
+  MAX_HTTP_BODY_BYTES,
+  parseHttpConfiguration,
+  startHttpServer,
+  type HttpServerHandle,
+} from '../http-server.js';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-11-25',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('parseHttpConfiguration', () => {
+  it('applies defaults and splits the token list', () => {
+    expect(
+      parseHttpConfiguration({
+        FREESCOUT_HTTP_TOKENS: ' alpha-token-0123456789, beta-token-0123456789 ,',
+      })
+    ).toEqual({
+      host: DEFAULT_HTTP_HOST,
+      port: DEFAULT_HTTP_PORT,
+      callers: [
+        { name: 'token-1', token: 'alpha-token-0123456789' },
+        { name: 'token-2', token: 'beta-token-0123456789' },
+      ],
+      watchParent: false,
+    });
+  });
+
+  describe('callers file', () => {
+    let dir: string;
+    const writeCallers = (content: unknown) => {
+      const path = join(dir, 'callers.json');
+      writeFileSync(path, JSON.stringify(content));
+      return path;
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'freescout-callers-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('maps tokens to FreeScout users alongside shared tokens', () => {
+      const path = writeCallers({
+        callers: [
+          { name: 'alice', token: 'alice-token-0123456789', userId: 3 },
+          { name: 'bob', token: 'bob-token-0123456789', userId: 4, apiKey: 'bob-key' },
+        ],
+      });
+
+      expect(
+        parseHttpConfiguration({
+          FREESCOUT_HTTP_TOKENS: 'shared-token-0123456789',
+          FREESCOUT_HTTP_CALLERS_FILE: path,
+        }).callers
+      ).toEqual([
+        { name: 'token-1', token: 'shared-token-0123456789' },
+        { name: 'alice', token: 'alice-token-0123456789', userId: 3 },
+        { name: 'bob', token: 'bob-token-0123456789', userId: 4, apiKey: 'bob-key' },
+      ]);
+    });
+
+    it('rejects malformed entries and duplicate tokens', () => {
+      const invalid = writeCallers({ callers: [{ name: 'alice', token: 'short', userId: 0 }] });
+      expect(() => parseHttpConfiguration({ FREESCOUT_HTTP_CALLERS_FILE: invalid })).toThrow(
+        /callers\.0\.token.*callers\.0\.userId/
+      );
+
+      const duplicate = writeCallers({
+        callers: [
+          { name: 'alice', token: 'same-token-0123456789' },
+          { name: 'bob', token: 'same-token-0123456789' },
+        ],
+      });
+      expect(() => parseHttpConfiguration({ FREESCOUT_HTTP_CALLERS_FILE: duplicate })).toThrow(
+        'Bearer token for caller "bob" is used more than once'
+      );
+    });
+
+    it('reports an unreadable file', () => {
+      expect(() =>
+        parseHttpConfiguration({ FREESCOUT_HTTP_CALLERS_FILE: join(dir, 'missing.json') })
+      ).toThrow(/Unable to read FREESCOUT_HTTP_CALLERS_FILE/);
+    });
+  });
+
+  it('holds shared tokens to the same minimum length as the callers file', () => {
+    expect(() =>
+      parseHttpConfiguration({ FREESCOUT_HTTP_TOKENS: 'alpha-token-0123456789,x' })
+    ).toThrow(/Invalid FREESCOUT_HTTP_TOKENS: token 2: .*16/);
+  });
+
+  it('rejects invalid ports and a missing token list', () => {
+    expect(() =>
+      parseHttpConfiguration({
+        FREESCOUT_HTTP_PORT: '70000',
+        FREESCOUT_HTTP_TOKENS: 'alpha-token-0123456789',
+      })
+    ).toThrow(/FREESCOUT_HTTP_PORT/);
+    expect(() => parseHttpConfiguration({ FREESCOUT_HTTP_HOST: '0.0.0.0' })).toThrow(
+      /FREESCOUT_HTTP_TOKENS/
+    );
+  });
+
+  it('selects HTTP from the CLI flag or environment', () => {
+    expect(isHttpTransportRequested(['--http'], {})).toBe(true);
+    expect(isHttpTransportRequested([], { FREESCOUT_TRANSPORT: 'HTTP' })).toBe(true);
+    expect(isHttpTransportRequested([], {})).toBe(false);
+  });
+});
+
+describe('startHttpServer', () => {
+  let server: HttpServerHandle;
+  const factory = vi.fn(() => new McpServer({ name: 'http-test', version: '1.0.0' }));
+
+  beforeEach(async () => {
+    factory.mockClear();
+    server = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      callers: [
+        { name: 'team', token: 'team-token' },
+        { name: 'alice', token: 'alice-token', userId: 3, apiKey: 'alice-key' },
+      ],
+      factory,
+      version: '9.9.9',
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const post = (token?: string) =>
+    fetch(`${server.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(initialize),
+    });
+
+  it('answers health checks without authentication', async () => {
+    const response = await fetch(`${server.url}/health`);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ status: 'ok', version: '9.9.9' });
+  });
+
+  it('requires a known bearer token for MCP requests', async () => {
+    expect((await post()).status).toBe(401);
+    expect((await post('wrong-token')).status).toBe(401);
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('serves MCP requests from a fresh server per request', async () => {
+    const response = await post('team-token');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('"serverInfo"');
+    expect(factory).toHaveBeenCalledWith(expect.objectContaining({ era: 'legacy' }));
+  });
+
+  it('passes the caller identity to the server factory', async () => {
+    expect((await post('alice-token')).status).toBe(200);
+
+    const [{ authInfo }] = factory.mock.calls[0] as unknown as [{ authInfo: AuthInfo }];
+    expect(authInfo.clientId).toBe('alice');
+    expect(callerIdentity(authInfo)).toEqual({ name: 'alice', userId: 3, apiKey: 'alice-key' });
+  });
+
+  it('authenticates before reading the request body', async () => {
+    const oversized = (token?: string) =>
+      fetch(`${server.url}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: 'x'.repeat(MAX_HTTP_BODY_BYTES + 1),
+      });
+
+    expect((await oversized()).status).toBe(401);
+    expect((await oversized('team-token')).status).toBe(413);
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown paths', async () => {
+    expect((await fetch(`${server.url}/other`)).status).toBe(404);
+  });
+
+  it('stops accepting connections once closed', async () => {
+    await server.close();
+
+    await expect(fetch(`${server.url}/health`)).rejects.toThrow();
+  });
+});
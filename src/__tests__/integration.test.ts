@@ -120,8 +120,8 @@ describeIf('FreeScout Integration Tests', () => {
     });
 
     it('should parse numeric ticket input', () => {
-      expect(api.parseTicketInput('12345')).toBe('12345');
-      expect(api.parseTicketInput(' 67890 ')).toBe('67890');
+      expect(api.parseTicketReference('12345')).toEqual({ kind: 'id', value: 12345 });
+      expect(api.parseTicketReference(' 67890 ')).toEqual({ kind: 'id', value: 67890 });
     });
   });
 });
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadToolPolicyRules, ToolPolicy } from '../policy.js';
+
+describe('ToolPolicy', () => {
+  it('allows everything without rules', () => {
+    const policy = new ToolPolicy();
+
+    expect(policy.allowsTool('freescout_add_note')).toBe(true);
+    expect(policy.restrictsMailboxes).toBe(false);
+    expect(() => policy.assertStatus('spam')).not.toThrow();
+    expect(() => policy.assertMailbox(undefined, 'changes to ticket #1')).not.toThrow();
+  });
+
+  it('hides write tools in read-only mode and disabled tools always', () => {
+    const policy = new ToolPolicy({ readOnly: true, disabledTools: ['freescout_list_users'] });
+
+    expect(policy.allowsTool('freescout_get_ticket', { readOnlyHint: true })).toBe(true);
+    expect(policy.allowsTool('freescout_update_ticket', { readOnlyHint: false })).toBe(false);
+    expect(policy.allowsTool('freescout_bulk_update')).toBe(false);
+    expect(policy.allowsTool('freescout_list_users', { readOnlyHint: true })).toBe(false);
+  });
+
+  it('refuses actions that belong to a disabled tool', () => {
+    const policy = new ToolPolicy({ disabledTools: ['freescout_add_note'] });
+
+    expect(() =>
+      policy.assertToolEnabled('freescout_update_ticket', 'changing status')
+    ).not.toThrow();
+    expect(() => policy.assertToolEnabled('freescout_add_note', 'adding notes')).toThrow(
+      'Policy does not allow adding notes because freescout_add_note is disabled'
+    );
+  });
+
+  it('rejects statuses and mailboxes outside the allowed lists', () => {
+    const policy = new ToolPolicy({ allowedStatuses: ['pending'], allowedMailboxes: [3] });
+
+    expect(() => policy.assertStatus(undefined)).not.toThrow();
+    expect(() => policy.assertStatus('pending')).not.toThrow();
+    expect(() => policy.assertStatus('spam')).toThrow(
+      'Policy does not allow setting status "spam". Allowed statuses: pending'
+    );
+    expect(() => policy.assertMailbox(3, 'changes to ticket #1')).not.toThrow();
+    expect(() => policy.assertMailbox(undefined, 'changes to ticket #1')).toThrow(
+      'Policy does not allow changes to ticket #1 (mailbox unknown). Allowed mailboxes: 3'
+    );
+  });
+});
+
+describe('loadToolPolicyRules', () => {
+  const toolNames = ['freescout_add_note', 'freescout_merge_tickets'];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'freescout-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writePolicy = (content: unknown) => {
+    const path = join(dir, 'policy.json');
+    writeFileSync(path, JSON.stringify(content));
+    return path;
+  };
+
+  it('returns no rules when nothing is configured', () => {
+    expect(loadToolPolicyRules({}, toolNames)).toEqual({});
+  });
+
+  it('reads the policy file and lets FREESCOUT_READ_ONLY turn on read-only mode', () => {
+    const path = writePolicy({ readOnly: false, allowedMailboxes: [3] });
+
+    expect(loadToolPolicyRules({ FREESCOUT_POLICY_FILE: path }, toolNames)).toEqual({
+      readOnly: false,
+      allowedMailboxes: [3],
+    });
+    expect(
+      loadToolPolicyRules({ FREESCOUT_POLICY_FILE: path, FREESCOUT_READ_ONLY: 'true' }, toolNames)
+    ).toEqual({ readOnly: true, allowedMailboxes: [3] });
+  });
+
+  it('rejects unknown keys and invalid values', () => {
+    const path = writePolicy({ readonly: true, allowedStatuses: ['archived'] });
+
+    expect(() => loadToolPolicyRules({ FREESCOUT_POLICY_FILE: path }, toolNames)).toThrow(
+      /Invalid FREESCOUT_POLICY_FILE.*allowedStatuses\.0/
+    );
+  });
+
+  it('rejects disabled tools that the server does not have', () => {
+    const path = writePolicy({ disabledTools: ['freescout_merge_tickets', 'freescout_add_notes'] });
+
+    expect(() => loadToolPolicyRules({ FREESCOUT_POLICY_FILE: path }, toolNames)).toThrow(
+      /Invalid FREESCOUT_POLICY_FILE.*disabledTools: unknown tool "freescout_add_notes"/
+    );
+  });
+
+  it('reports an unreadable file', () => {
+    expect(() =>
+      loadToolPolicyRules({ FREESCOUT_POLICY_FILE: join(dir, 'missing.json') }, toolNames)
+    ).toThrow(/Unable to read FREESCOUT_POLICY_FILE/);
+  });
+});
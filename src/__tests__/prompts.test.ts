@@ -0,0 +1,187 @@
+import { InMemoryTransport, McpServer } from '@modelcontextprotocol/server';
+import { vi } from 'vitest';
+import { registerPrompts } from '../prompts.js';
+import { TicketAnalyzer } from '../ticket-analyzer.js';
+
+const conversation = {
+  id: 123,
+  number: 456,
+  subject: 'Checkout error',
+  status: 'active' as const,
+  mailbox_id: 4,
+  created_at: '2026-08-14T00:00:00Z',
+  custom_fields: [{ id: 1, name: 'Plugin version', value: '5', text: '3.46' }],
+  _embedded: {
+    customer: { id: 1, email: 'casey@example.com', first_name: 'Casey', last_name: 'Customer' },
+    threads: [
+      {
+        id: 1,
+        type: 'customer' as const,
+        body: '<p>Checkout failed with an error: payment rejected</p>',
+        created_at: '2026-08-14T00:00:00Z',
+      },
+    ],
+  },
+};
+
+function createApi() {
+  return {
+    getConversation: vi.fn().mockResolvedValue(conversation),
+    getMailboxes: vi.fn().mockResolvedValue({
+      _embedded: {
+        mailboxes: [
+          { id: 4, name: 'Support' },
+          { id: 12, name: 'Sales' },
+        ],
+      },
+    }),
+    resolveTicket: vi.fn(async (input: string) => ({
+      id: input.replace(/^id:/, ''),
+      number: conversation.number,
+    })),
+    searchConversations: vi.fn().mockResolvedValue({
+      _embedded: { conversations: [conversation, { ...conversation, id: 150 }] },
+      page: { total_elements: 2, number: 1, total_pages: 1 },
+    }),
+  };
+}
+
+async function connect(canUseTool: (name: string) => boolean = () => true) {
+  const api = createApi();
+  const server = new McpServer({ name: 'prompts-test', version: '1.0.0' });
+  registerPrompts(server, api as never, new TicketAnalyzer(), canUseTool);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const pending = new Map<number, (message: Record<string, unknown>) => void>();
+  clientTransport.onmessage = (message) => {
+    const response = message as Record<string, unknown>;
+    pending.get(response.id as number)?.(response);
+  };
+  await server.connect(serverTransport);
+  await clientTransport.start();
+
+  let nextId = 1;
+  const request = (method: string, params: Record<string, unknown> = {}) => {
+    const id = nextId++;
+    const response = new Promise<Record<string, unknown>>((resolve) => pending.set(id, resolve));
+    void clientTransport.send({ jsonrpc: '2.0', id, method, params });
+    return response;
+  };
+
+  await request('initialize', {
+    protocolVersion: '2025-11-25',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  });
+  await clientTransport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+  const getPrompt = async (name: string, args: Record<string, string> = {}) => {
+    const response = await request('prompts/get', { name, arguments: args });
+    if (response.error) {
+      throw new Error((response.error as { message: string }).message);
+    }
+    const result = response.result as {
+      messages: Array<{ role: string; content: { type: string; text: string } }>;
+    };
+    return result.messages.map((message) => message.content.text);
+  };
+  const complete = async (name: string, argument: string, value: string) =>
+    (
+      (
+        await request('completion/complete', {
+          ref: { type: 'ref/prompt', name },
+          argument: { name: argument, value },
+        })
+      ).result as { completion: { values: string[] } }
+    ).completion.values;
+
+  return { api, server, request, getPrompt, complete };
+}
+
+describe('registerPrompts', () => {
+  it('lists the workflow prompts with their arguments', async () => {
+    const { server, request } = await connect();
+
+    const response = await request('prompts/list');
+    const prompts = (
+      response.result as {
+        prompts: Array<{ name: string; arguments?: Array<{ name: string; required?: boolean }> }>;
+      }
+    ).prompts;
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'freescout_triage_queue',
+      'freescout_draft_reply',
+      'freescout_bug_summary',
+    ]);
+    expect(prompts[1].arguments).toEqual([
+      expect.objectContaining({ name: 'ticket', required: true }),
+      expect.objectContaining({ name: 'tone', required: false }),
+      expect.objectContaining({ name: 'language', required: false }),
+    ]);
+    await server.close();
+  });
+
+  it('embeds unassigned tickets in the triage prompt', async () => {
+    const { api, server, getPrompt } = await connect();
+
+    const [instructions, queue] = await getPrompt('freescout_triage_queue', { mailbox: '4' });
+
+    expect(api.searchConversations).toHaveBeenCalledWith({
+      assignee: 'unassigned',
+      status: 'active',
+      mailboxId: 4,
+      pageSize: 20,
+    });
+    expect(instructions).toContain('in mailbox 4');
+    expect(instructions).toContain('`freescout_bulk_update`');
+    expect(queue).toContain('"subject": "Checkout error"');
+    await expect(getPrompt('freescout_triage_queue', { mailbox: 'support' })).rejects.toThrow(
+      /Invalid mailbox "support"/
+    );
+    await server.close();
+  });
+
+  it('embeds ticket context in the draft reply prompt', async () => {
+    const { api, server, getPrompt } = await connect();
+
+    const [instructions, context] = await getPrompt('freescout_draft_reply', {
+      ticket: 'id:123',
+      tone: 'formal',
+      language: 'German',
+    });
+
+    expect(api.getConversation).toHaveBeenCalledWith('123', true);
+    expect(instructions).toContain('- Tone: formal.');
+    expect(instructions).toContain('- Language: German.');
+    expect(instructions).toContain('`freescout_create_draft_reply` (ticket "123")');
+    expect(context).toContain('Ticket context (from freescout_get_ticket_context)');
+    expect(context).toContain('"email": "casey@example.com"');
+    expect(context).toContain('"value": "3.46"');
+    await server.close();
+  });
+
+  it('does not point at write tools the server has not registered', async () => {
+    const { server, getPrompt } = await connect(() => false);
+
+    const [draft] = await getPrompt('freescout_draft_reply', { ticket: '123' });
+    const [summary, context] = await getPrompt('freescout_bug_summary', { ticket: '123' });
+    const [triage] = await getPrompt('freescout_triage_queue');
+
+    expect(draft).not.toContain('freescout_create_draft_reply');
+    expect(draft).toContain('show me the reply text');
+    expect(summary).not.toContain('freescout_add_note');
+    expect(context).toContain('"errorMessages"');
+    expect(triage).not.toContain('freescout_bulk_update');
+    await server.close();
+  });
+
+  it('completes tickets, tones, and mailboxes', async () => {
+    const { server, complete } = await connect();
+
+    expect(await complete('freescout_draft_reply', 'ticket', '15')).toEqual(['150']);
+    expect(await complete('freescout_draft_reply', 'tone', 'f')).toEqual(['friendly', 'formal']);
+    expect(await complete('freescout_triage_queue', 'mailbox', '1')).toEqual(['12']);
+    await server.close();
+  });
+});
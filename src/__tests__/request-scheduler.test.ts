@@ -0,0 +1,115 @@
+import { vi } from 'vitest';
+import { MAX_RETRY_AFTER_MS, parseRetryAfter, RequestScheduler } from '../request-scheduler.js';
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates and caps long pauses', () => {
+    const now = Date.parse('2026-10-14T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 14 Oct 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Tue, 13 Oct 2026 00:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('3600', now)).toBe(MAX_RETRY_AFTER_MS);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((done) => (resolve = done));
+    return { promise, resolve };
+  };
+
+  it('keeps at most maxConcurrency requests in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2, requestsPerSecond: 0 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      scheduler.schedule(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      })
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.state).toMatchObject({ active: 2, queued: 1 });
+
+    gates[0].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2]);
+    expect(scheduler.state).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('holds the sustained rate to requestsPerSecond after the burst', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 2, burst: 2 });
+    const started: number[] = [];
+
+    for (let index = 0; index < 4; index++) {
+      void scheduler.schedule(async () => started.push(index));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('holds queued requests during a Retry-After pause and logs the state', async () => {
+    const log = vi.fn();
+    const scheduler = new RequestScheduler({ requestsPerSecond: 0, log });
+    const started = vi.fn();
+
+    scheduler.pause(1000);
+    void scheduler.schedule(async () => started());
+    await vi.advanceTimersByTimeAsync(999);
+    expect(started).not.toHaveBeenCalled();
+    expect(scheduler.state.pausedForMs).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toHaveBeenCalledOnce();
+    expect(log).toHaveBeenCalledWith(
+      'Pausing requests for 1000ms (Retry-After) (active 0/5, queued 0, tokens 1/1, paused 1000ms)'
+    );
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^Request queued \(.*queued 1/));
+  });
+
+  it('drops a queued request when its signal is aborted', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1, requestsPerSecond: 0 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const started = vi.fn();
+
+    void scheduler.schedule(() => gate.promise);
+    const queued = scheduler.schedule(async () => started(), controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.state.queued).toBe(1);
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.state.queued).toBe(0);
+
+    gate.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).not.toHaveBeenCalled();
+    expect(scheduler.state.active).toBe(0);
+  });
+});
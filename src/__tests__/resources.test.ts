@@ -0,0 +1,199 @@
+import { InMemoryTransport, McpServer } from '@modelcontextprotocol/server';
+import { vi } from 'vitest';
+import { registerResources } from '../resources.js';
+import { TicketAnalyzer } from '../ticket-analyzer.js';
+
+const conversation = {
+  id: 123,
+  number: 456,
+  subject: 'Checkout error',
+  status: 'active' as const,
+  mailbox_id: 4,
+  customer_id: 1,
+  user_id: 7,
+  created_at: '2026-08-14T00:00:00Z',
+  custom_fields: [{ id: 1, name: 'Plugin version', value: '5', text: '3.46' }],
+  _embedded: {
+    customer: { id: 1, email: 'casey@example.com', first_name: 'Casey', last_name: 'Customer' },
+    tags: [{ id: 1, name: 'refund' }],
+    threads: [
+      {
+        id: 2,
+        type: 'note' as const,
+        body: '<p>Reproduced on staging.</p>',
+        created_at: '2026-08-15T00:00:00Z',
+      },
+      {
+        id: 1,
+        type: 'customer' as const,
+        body: '<p>Checkout failed with an error: payment rejected</p>',
+        created_at: '2026-08-14T00:00:00Z',
+        attachments: [{ id: 9, file_name: 'debug.log', mime_type: 'text/plain', size: 5 }],
+      },
+    ],
+  },
+};
+
+function createApi() {
+  return {
+    getConversation: vi.fn().mockResolvedValue(conversation),
+    getCustomer: vi.fn().mockResolvedValue(conversation._embedded.customer),
+    getMailboxes: vi.fn().mockResolvedValue({
+      _embedded: { mailboxes: [{ id: 4, name: 'Support', email: 'help@example.com' }] },
+    }),
+    searchConversations: vi.fn().mockResolvedValue({
+      _embedded: { conversations: [conversation, { ...conversation, id: 150, customer_id: 2 }] },
+      page: { total_elements: 2, number: 1, total_pages: 1 },
+    }),
+  };
+}
+
+async function connect(api = createApi()) {
+  const server = new McpServer({ name: 'resources-test', version: '1.0.0' });
+  registerResources(server, api as never, new TicketAnalyzer());
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const pending = new Map<number, (message: Record<string, unknown>) => void>();
+  clientTransport.onmessage = (message) => {
+    const response = message as Record<string, unknown>;
+    pending.get(response.id as number)?.(response);
+  };
+  await server.connect(serverTransport);
+  await clientTransport.start();
+
+  let nextId = 1;
+  const request = (method: string, params: Record<string, unknown> = {}) => {
+    const id = nextId++;
+    const response = new Promise<Record<string, unknown>>((resolve) => pending.set(id, resolve));
+    void clientTransport.send({ jsonrpc: '2.0', id, method, params });
+    return response;
+  };
+
+  await request('initialize', {
+    protocolVersion: '2025-11-25',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  });
+  await clientTransport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+  const read = async (uri: string) => {
+    const response = await request('resources/read', { uri });
+    if (response.error) {
+      throw new Error((response.error as { message: string }).message);
+    }
+    return (response.result as { contents: Array<{ text: string; mimeType: string }> }).contents[0];
+  };
+  const complete = async (uri: string, name: string, value: string, args?: object) =>
+    (
+      (
+        await request('completion/complete', {
+          ref: { type: 'ref/resource', uri },
+          argument: { name, value },
+          ...(args && { context: { arguments: args } }),
+        })
+      ).result as { completion: { values: string[] } }
+    ).completion.values;
+
+  return { api, server, request, read, complete };
+}
+
+describe('registerResources', () => {
+  it('lists templates, recent active tickets, and mailboxes', async () => {
+    const { api, server, request } = await connect();
+
+    const templates = await request('resources/templates/list');
+    const resources = await request('resources/list');
+
+    expect(
+      (
+        templates.result as { resourceTemplates: Array<{ uriTemplate: string }> }
+      ).resourceTemplates.map((template) => template.uriTemplate)
+    ).toEqual([
+      'freescout://conversation/{id}',
+      'freescout://conversation/{id}/thread/{threadId}',
+      'freescout://customer/{id}',
+      'freescout://mailbox/{id}',
+    ]);
+    expect((resources.result as { resources: unknown[] }).resources).toEqual([
+      expect.objectContaining({
+        uri: 'freescout://conversation/123',
+        name: '#456 Checkout error',
+        mimeType: 'text/markdown',
+      }),
+      expect.objectContaining({ uri: 'freescout://conversation/150' }),
+      expect.objectContaining({ uri: 'freescout://mailbox/4', name: 'Support' }),
+    ]);
+    expect(api.searchConversations).toHaveBeenCalledWith({ status: 'active', pageSize: 25 });
+    await server.close();
+  });
+
+  it('renders a ticket as Markdown with its analysis and threads in order', async () => {
+    const { api, server, read } = await connect();
+
+    const resource = await read('freescout://conversation/123');
+
+    expect(api.getConversation).toHaveBeenCalledWith('123', true);
+    expect(resource.mimeType).toBe('text/markdown');
+    expect(resource.text).toContain('# #456 Checkout error');
+    expect(resource.text).toContain('- **Customer:** [Casey Customer](freescout://customer/1)');
+    expect(resource.text).toContain('- **Mailbox:** [4](freescout://mailbox/4)');
+    expect(resource.text).toContain('- **Tags:** refund');
+    expect(resource.text).toContain('- **Plugin version:** 3.46');
+    expect(resource.text).toContain('## Analysis');
+    expect(resource.text).toContain('Attachments: debug.log (ID 9)');
+    expect(resource.text.indexOf('payment rejected')).toBeLessThan(
+      resource.text.indexOf('Reproduced on staging.')
+    );
+    await server.close();
+  });
+
+  it('renders a single thread and rejects unknown threads and invalid IDs', async () => {
+    const { server, read } = await connect();
+
+    const thread = await read('freescout://conversation/123/thread/2');
+
+    expect(thread.text).toContain('# Note on [#456 Checkout error](freescout://conversation/123)');
+    expect(thread.text).toContain('Reproduced on staging.');
+    await expect(read('freescout://conversation/123/thread/99')).rejects.toThrow(
+      /Thread 99 not found on ticket #456/
+    );
+    await expect(read('freescout://conversation/abc')).rejects.toThrow(/Invalid id "abc"/);
+    await server.close();
+  });
+
+  it('renders customers with recent tickets and mailboxes with active tickets', async () => {
+    const { api, server, read } = await connect();
+
+    const customer = await read('freescout://customer/1');
+    const mailbox = await read('freescout://mailbox/4');
+
+    expect(api.getCustomer).toHaveBeenCalledWith(1);
+    expect(api.searchConversations).toHaveBeenCalledWith({
+      customerId: 1,
+      status: 'all',
+      pageSize: 10,
+    });
+    expect(customer.text).toContain('# Casey Customer');
+    expect(customer.text).toContain('- [#456 Checkout error](freescout://conversation/123)');
+    expect(mailbox.text).toContain('# Support');
+    expect(mailbox.text).toContain('- **Email:** help@example.com');
+    expect(mailbox.text).toContain('- **Active tickets:** 2');
+    await expect(read('freescout://mailbox/8')).rejects.toThrow(/Mailbox 8 not found/);
+    await server.close();
+  });
+
+  it('completes ticket, thread, customer, and mailbox IDs', async () => {
+    const { server, complete } = await connect();
+
+    expect(await complete('freescout://conversation/{id}', 'id', '1')).toEqual(['123', '150']);
+    expect(await complete('freescout://conversation/{id}', 'id', '15')).toEqual(['150']);
+    expect(
+      await complete('freescout://conversation/{id}/thread/{threadId}', 'threadId', '', {
+        id: '123',
+      })
+    ).toEqual(['2', '1']);
+    expect(await complete('freescout://customer/{id}', 'id', '')).toEqual(['1', '2']);
+    expect(await complete('freescout://mailbox/{id}', 'id', '4')).toEqual(['4']);
+    await server.close();
+  });
+});
@@ -0,0 +1,70 @@
+import { ResponseCache } from '../response-cache.js';
+
+describe('ResponseCache', () => {
+  let now: number;
+  const createCache = (options = {}) => new ResponseCache(options, () => now);
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('serves entries as fresh until the TTL passes, then as stale', () => {
+    const cache = createCache({ ttlMs: 1000 });
+    cache.set('/mailboxes', [{ id: 1 }], { tags: ['mailboxes'], generation: 0, etag: '"v1"' });
+
+    expect(cache.get('/mailboxes')).toEqual({
+      value: [{ id: 1 }],
+      fresh: true,
+      etag: '"v1"',
+      lastModified: undefined,
+    });
+
+    now = 1000;
+    expect(cache.get('/mailboxes')?.fresh).toBe(false);
+
+    cache.touch('/mailboxes');
+    expect(cache.get('/mailboxes')?.fresh).toBe(true);
+  });
+
+  it('returns copies so callers cannot change cached responses', () => {
+    const cache = createCache();
+    cache.set('/mailboxes', { name: 'Support' }, { tags: [], generation: 0 });
+
+    cache.get<{ name: string }>('/mailboxes')!.value.name = 'Changed';
+
+    expect(cache.get('/mailboxes')?.value).toEqual({ name: 'Support' });
+  });
+
+  it('evicts the least recently used entry beyond the size limit', () => {
+    const cache = createCache({ maxEntries: 2 });
+    cache.set('a', 1, { tags: [], generation: 0 });
+    cache.set('b', 2, { tags: [], generation: 0 });
+    cache.get('a');
+    cache.set('c', 3, { tags: [], generation: 0 });
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')?.value).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')?.value).toBe(3);
+  });
+
+  it('invalidates entries by tag and ignores loads that started before', () => {
+    const cache = createCache();
+    cache.set('/conversations/1', 1, { tags: ['conversation', 'conversation:1'], generation: 0 });
+    cache.set('/conversations/12', 12, {
+      tags: ['conversation', 'conversation:12'],
+      generation: 0,
+    });
+    const generation = cache.currentGeneration;
+
+    cache.invalidate('conversation:1');
+    cache.set('/conversations/1?embed=threads', 1, {
+      tags: ['conversation', 'conversation:1'],
+      generation,
+    });
+
+    expect(cache.get('/conversations/1')).toBeUndefined();
+    expect(cache.get('/conversations/1?embed=threads')).toBeUndefined();
+    expect(cache.get('/conversations/12')?.value).toBe(12);
+  });
+});
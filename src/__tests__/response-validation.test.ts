@@ -0,0 +1,95 @@
+import { FreeScoutResponseValidationError } from '../errors.js';
+import {
+  parseResponseValidationMode,
+  ResponseValidator,
+  type ResponseValidationMode,
+} from '../response-validation.js';
+import { ConversationSchema } from '../types.js';
+
+describe('ResponseValidator', () => {
+  const request = { method: 'GET', endpoint: '/conversations/123?embed=threads' };
+  const conversation = {
+    id: 123,
+    number: 456,
+    subject: 'Printer on fire',
+    status: 'active',
+    _embedded: { threads: [{ id: 1, type: 'customer' }] },
+  };
+  const drifted = {
+    ...conversation,
+    status: 'archived',
+    _embedded: { threads: [{ id: 1 }, { id: 2, type: 'lineitem' }] },
+  };
+
+  let log: ReturnType<typeof vi.fn<(message: string) => void>>;
+  const createValidator = (mode: ResponseValidationMode) => new ResponseValidator(mode, log);
+
+  beforeEach(() => {
+    log = vi.fn<(message: string) => void>();
+  });
+
+  it('returns the response as sent, including fields the schema does not declare', () => {
+    const response = { ...conversation, customerWaitingSince: { friendly: '2h' } };
+
+    for (const mode of ['strict', 'warn', 'off'] as const) {
+      expect(createValidator(mode).validate(ConversationSchema, response, request)).toBe(response);
+    }
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('throws with the endpoint and field paths in strict mode', () => {
+    const validator = createValidator('strict');
+
+    let error: unknown;
+    try {
+      validator.validate(ConversationSchema, drifted, request);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(FreeScoutResponseValidationError);
+    const validationError = error as FreeScoutResponseValidationError;
+    expect(validationError.endpoint).toBe('/conversations/123?embed=threads');
+    expect(validationError.drift.map((entry) => entry.path)).toEqual([
+      'status',
+      '_embedded.threads[1].type',
+    ]);
+    expect(validationError.message).toContain('GET /conversations/123?embed=threads');
+    expect(validationError.retryable).toBe(false);
+  });
+
+  it('logs drift once per endpoint and field in warn mode', () => {
+    const validator = createValidator('warn');
+
+    expect(validator.validate(ConversationSchema, drifted, request)).toBe(drifted);
+    validator.validate(ConversationSchema, drifted, {
+      method: 'GET',
+      endpoint: '/conversations/789?embed=threads',
+    });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log.mock.calls[0][0]).toMatch(
+      /^Response drift on GET \/conversations\/123\?embed=threads: status: .+; _embedded\.threads\[1\]\.type: /
+    );
+
+    validator.validate(ConversationSchema, { ...conversation, subject: null }, request);
+    expect(log).toHaveBeenCalledTimes(2);
+    expect(log.mock.calls[1][0]).toContain('subject: ');
+  });
+
+  it('skips validation when off', () => {
+    expect(createValidator('off').validate(ConversationSchema, 'not a ticket', request)).toBe(
+      'not a ticket'
+    );
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('parses the mode from the environment value', () => {
+    expect(parseResponseValidationMode(undefined)).toBe('warn');
+    expect(parseResponseValidationMode(' Strict ')).toBe('strict');
+    expect(parseResponseValidationMode('off')).toBe('off');
+    expect(() => parseResponseValidationMode('loud')).toThrow(
+      'FREESCOUT_RESPONSE_VALIDATION must be one of: strict, warn, off'
+    );
+  });
+});
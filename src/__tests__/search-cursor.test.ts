@@ -0,0 +1,52 @@
+import { vi } from 'vitest';
+import { decodeSearchCursor, encodeSearchCursor } from '../search-cursor.js';
+
+describe('search cursors', () => {
+  it('round-trips the filters and position without the page or preview flag', () => {
+    const cursor = encodeSearchCursor({
+      filters: { status: 'active', assignee: 11, page: 3, includeLastMessage: true },
+      page: 4,
+      offset: 20,
+    });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSearchCursor(cursor)).toEqual({
+      filters: { status: 'active', assignee: 11 },
+      page: 4,
+      offset: 20,
+    });
+  });
+
+  it('stores relative dates resolved, so continuations keep the same time window', () => {
+    vi.useFakeTimers({ now: new Date('2024-01-10T12:00:00Z') });
+    try {
+      const cursor = encodeSearchCursor({
+        filters: { createdSince: '7d', updatedBefore: '24h' },
+        page: 2,
+        offset: 0,
+      });
+      vi.setSystemTime(new Date('2024-01-11T12:00:00Z'));
+
+      expect(decodeSearchCursor(cursor).filters).toEqual({
+        createdSince: '2024-01-03T12:00:00.000Z',
+        updatedBefore: '2024-01-09T12:00:00.000Z',
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects cursors that were not issued by a search', () => {
+    const message = /Invalid cursor: pass the nextCursor/;
+
+    expect(() => decodeSearchCursor('not a cursor')).toThrow(message);
+    expect(() =>
+      decodeSearchCursor(Buffer.from(JSON.stringify({ v: 2, filters: {} })).toString('base64url'))
+    ).toThrow(message);
+    expect(() =>
+      decodeSearchCursor(
+        Buffer.from(JSON.stringify({ v: 1, filters: {}, page: 0, offset: 0 })).toString('base64url')
+      )
+    ).toThrow(message);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  clientSideSearchFilters,
+  matchesClientSideFilters,
+  reachedBeforeLimit,
+  resolveSearchDates,
+  searchSort,
+  waitingOn,
+} from '../search-filters.js';
+
+const ticket = (threads: Array<{ type: 'customer' | 'message' | 'note'; state?: 'draft' }>) => ({
+  id: 1,
+  number: 100,
+  subject: 'Waiting',
+  status: 'active' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-05T00:00:00Z',
+  _embedded: {
+    threads: threads.map((thread, index) => ({
+      id: index + 1,
+      created_at: `2024-01-0${index + 1}T00:00:00Z`,
+      ...thread,
+    })),
+  },
+});
+
+describe('client-side search filters', () => {
+  it('lists only the client-side filters a search sets', () => {
+    expect(
+      clientSideSearchFilters({ status: 'active', waitingOn: 'customer', createdBefore: '30d' })
+    ).toEqual(['createdBefore', 'waitingOn']);
+    expect(clientSideSearchFilters({ createdSince: '7d', sortField: 'number' })).toEqual([]);
+  });
+
+  it('decides who a ticket waits on from the latest message, skipping notes and drafts', () => {
+    expect(waitingOn(ticket([{ type: 'message' }, { type: 'customer' }, { type: 'note' }]))).toBe(
+      'us'
+    );
+    expect(waitingOn(ticket([{ type: 'customer' }, { type: 'message' }]))).toBe('customer');
+    expect(waitingOn(ticket([{ type: 'customer' }, { type: 'message', state: 'draft' }]))).toBe(
+      'us'
+    );
+    expect(waitingOn(ticket([{ type: 'note' }]))).toBeUndefined();
+  });
+
+  it('matches date ranges and leaves out tickets without the compared date', () => {
+    const conversation = ticket([{ type: 'customer' }]);
+    const cutoff = Date.parse('2024-01-03T00:00:00Z');
+
+    expect(matchesClientSideFilters(conversation, { createdBefore: cutoff })).toBe(true);
+    expect(matchesClientSideFilters(conversation, { updatedBefore: cutoff })).toBe(false);
+    expect(
+      matchesClientSideFilters(
+        { ...conversation, created_at: undefined },
+        { createdBefore: cutoff }
+      )
+    ).toBe(false);
+    expect(matchesClientSideFilters(conversation, { waitingOn: 'us' })).toBe(true);
+  });
+
+  it('sorts *Before searches oldest first and sees when a page reaches the date', () => {
+    const cutoff = Date.parse('2024-01-03T00:00:00Z');
+    const page = [ticket([]), { ...ticket([]), created_at: '2024-01-04T00:00:00Z' }];
+
+    expect(searchSort({ createdBefore: '30d' })).toEqual({
+      sortField: 'createdAt',
+      sortOrder: 'asc',
+    });
+    expect(searchSort({ updatedBefore: '30d', sortOrder: 'desc' })).toEqual({
+      sortField: undefined,
+      sortOrder: 'desc',
+    });
+    expect(searchSort({ status: 'active' })).toEqual({});
+
+    const ascending = { sortField: 'createdAt', sortOrder: 'asc' } as const;
+    expect(reachedBeforeLimit(page, ascending, { createdBefore: cutoff })).toBe(true);
+    expect(reachedBeforeLimit(page.slice(0, 1), ascending, { createdBefore: cutoff })).toBe(false);
+    expect(
+      reachedBeforeLimit(page, { ...ascending, sortOrder: 'desc' }, { createdBefore: cutoff })
+    ).toBe(false);
+    expect(reachedBeforeLimit(page, ascending, { updatedBefore: cutoff })).toBe(false);
+  });
+
+  it('pins relative dates to ISO dates and keeps everything else', () => {
+    const now = new Date('2024-01-10T12:00:00Z');
+
+    expect(
+      resolveSearchDates(
+        {
+          status: 'active',
+          updatedSince: '24h',
+          createdSince: '2024-01-01',
+          createdBefore: '7d',
+          updatedBefore: '30m',
+        },
+        now
+      )
+    ).toEqual({
+      status: 'active',
+      updatedSince: '2024-01-09T12:00:00.000Z',
+      createdSince: '2024-01-01',
+      createdBefore: '2024-01-03T12:00:00.000Z',
+      updatedBefore: '2024-01-10T11:30:00.000Z',
+    });
+  });
+});
@@ -93,6 +93,17 @@ describe('installStdioLifecycle', () => {
     expect(setIntervalFn).toHaveBeenCalledWith(expect.any(Function), MIN_PARENT_WATCHDOG_MS);
   });
 
+  it('skips the parent watchdog when asked to', () => {
+    const processRef = createProcessDouble(42);
+    const handle = { close: vi.fn().mockResolvedValue(undefined) };
+    const setIntervalFn = vi.fn(() => ({ unref: vi.fn() }));
+
+    installStdioLifecycle({ handle, processRef, watchParent: false, setIntervalFn });
+
+    expect(setIntervalFn).not.toHaveBeenCalled();
+    expect(processRef.once).toHaveBeenCalledWith('SIGTERM', expect.any(Function));
+  });
+
   it('fires a parent watchdog only once', () => {
     let watchdog: (() => void) | undefined;
     const onParentExit = vi.fn();
@@ -0,0 +1,34 @@
+import { TicketNumberIndex } from '../ticket-numbers.js';
+
+describe('TicketNumberIndex', () => {
+  it('maps numbers to IDs and back', () => {
+    const index = new TicketNumberIndex();
+    index.record(123, 4521);
+
+    expect(index.idFor(4521)).toBe(123);
+    expect(index.numberFor(123)).toBe(4521);
+    expect(index.idFor(123)).toBeUndefined();
+  });
+
+  it('replaces stale pairings in both directions', () => {
+    const index = new TicketNumberIndex();
+    index.record(123, 4521);
+    index.record(124, 4521);
+
+    expect(index.idFor(4521)).toBe(124);
+    expect(index.numberFor(123)).toBeUndefined();
+    expect(index.size).toBe(1);
+  });
+
+  it('drops the oldest pairings beyond the limit', () => {
+    const index = new TicketNumberIndex(2);
+    index.record(1, 101);
+    index.record(2, 102);
+    index.record(3, 103);
+
+    expect(index.size).toBe(2);
+    expect(index.idFor(101)).toBeUndefined();
+    expect(index.numberFor(1)).toBeUndefined();
+    expect(index.idFor(103)).toBe(3);
+  });
+});
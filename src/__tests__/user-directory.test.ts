@@ -0,0 +1,65 @@
+import { vi } from 'vitest';
+import { UserDirectory } from '../user-directory.js';
+
+const users = [
+  { id: 1, email: 'jack@example.com', first_name: 'Jack', last_name: 'Arturo' },
+  { id: 2, email: 'jackie@example.com', first_name: 'Jackie', last_name: 'Chen' },
+  { id: 3, email: 'sam@example.com', first_name: 'Sam', last_name: 'Lee' },
+];
+
+describe('UserDirectory', () => {
+  it('passes numeric IDs through without loading users', async () => {
+    const load = vi.fn().mockResolvedValue(users);
+    const directory = new UserDirectory(load);
+
+    await expect(directory.resolve(7)).resolves.toBe(7);
+    await expect(directory.resolve(' 8 ')).resolves.toBe(8);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('resolves emails and names, preferring exact matches', async () => {
+    const directory = new UserDirectory(vi.fn().mockResolvedValue(users));
+
+    await expect(directory.resolve('SAM@example.com')).resolves.toBe(3);
+    await expect(directory.resolve('jack arturo')).resolves.toBe(1);
+    await expect(directory.resolve('Chen')).resolves.toBe(2);
+  });
+
+  it('explains ambiguous and unknown matches', async () => {
+    const directory = new UserDirectory(vi.fn().mockResolvedValue(users));
+
+    await expect(directory.resolve('jack')).rejects.toThrow(
+      '"jack" matches more than one FreeScout user: Jack Arturo <jack@example.com> (ID 1), Jackie Chen <jackie@example.com> (ID 2). Use an email address or user ID instead.'
+    );
+    await expect(directory.resolve('nobody')).rejects.toThrow(/No FreeScout user matches/);
+  });
+
+  it('rejects empty input and a zero ID without loading users', async () => {
+    const load = vi.fn().mockResolvedValue(users);
+    const directory = new UserDirectory(load);
+
+    await expect(directory.resolve('')).rejects.toThrow(/not an empty string/);
+    await expect(directory.resolve('   ')).rejects.toThrow(/not an empty string/);
+    await expect(directory.resolve('0')).rejects.toThrow(
+      'User ID must be a positive integer, got "0"'
+    );
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('caches users until the TTL expires or the cache is invalidated', async () => {
+    let now = 0;
+    const load = vi.fn().mockResolvedValue(users);
+    const directory = new UserDirectory(load, 1000, () => now);
+
+    await Promise.all([directory.list(), directory.list()]);
+    now = 999;
+    await directory.list();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await directory.list();
+    directory.invalidate();
+    await directory.list();
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+});
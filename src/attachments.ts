@@ -0,0 +1,312 @@
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { basename, extname, isAbsolute, relative, resolve, sep } from 'node:path';
+import type {
+  AttachmentUpload,
+  FreeScoutAttachment,
+  FreeScoutAttachmentUpload,
+  FreeScoutConversation,
+} from './types.js';
+
+export type AttachmentKind = 'text' | 'image' | 'binary';
+
+const textMimeTypes = new Set([
+  'application/json',
+  'application/ld+json',
+  'application/x-ndjson',
+  'application/xml',
+  'application/csv',
+  'application/x-yaml',
+  'application/yaml',
+  'image/svg+xml',
+]);
+
+const textExtensions = new Set([
+  'txt',
+  'log',
+  'json',
+  'csv',
+  'tsv',
+  'md',
+  'xml',
+  'yml',
+  'yaml',
+  'ini',
+  'conf',
+  'html',
+  'htm',
+]);
+
+// Formats accepted as image content by multimodal MCP clients
+const imageMimeTypes = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+/** Normalizes a MIME type by dropping parameters such as `; charset=utf-8`. */
+export function normalizeMimeType(mimeType: string | null | undefined): string {
+  return (mimeType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Decides how an attachment can be shown to the model. Text is recognized by
+ * MIME type first and file extension second, because mail clients often send
+ * logs as `application/octet-stream`.
+ */
+export function classifyAttachment(fileName: string, mimeType: string): AttachmentKind {
+  const normalized = normalizeMimeType(mimeType);
+
+  if (imageMimeTypes.has(normalized)) {
+    return 'image';
+  }
+
+  if (
+    normalized.startsWith('text/') ||
+    textMimeTypes.has(normalized) ||
+    textExtensions.has(extensionOf(fileName))
+  ) {
+    return 'text';
+  }
+
+  return 'binary';
+}
+
+/**
+ * Finds an attachment on any thread of a conversation by its ID or file name.
+ */
+export function findAttachment(
+  conversation: FreeScoutConversation,
+  attachment: string
+): FreeScoutAttachment | undefined {
+  const attachments = (conversation._embedded?.threads || []).flatMap(
+    (thread) => thread.attachments || []
+  );
+  const key = attachment.trim();
+
+  if (/^\d+$/.test(key)) {
+    const byId = attachments.find((candidate) => candidate.id === Number(key));
+    if (byId) return byId;
+  }
+
+  return attachments.find((candidate) => candidate.file_name.toLowerCase() === key.toLowerCase());
+}
+
+// MIME types that may be uploaded to FreeScout, keyed by file extension
+const uploadMimeTypes: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  xml: 'application/xml',
+  yml: 'application/yaml',
+  yaml: 'application/yaml',
+  html: 'text/html',
+  php: 'text/plain',
+  js: 'text/plain',
+  css: 'text/css',
+  diff: 'text/x-diff',
+  patch: 'text/x-diff',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+};
+
+const allowedUploadMimeTypes = new Set(Object.values(uploadMimeTypes));
+
+export interface AttachmentUploadOptions {
+  /** Directory that local file paths must resolve inside; path uploads are disabled without it. */
+  allowedDirectory?: string;
+  maxBytes: number;
+}
+
+function isInsideDirectory(directory: string, target: string): boolean {
+  const relation = relative(directory, target);
+  return (
+    relation !== '' &&
+    !relation.startsWith(`..${sep}`) &&
+    relation !== '..' &&
+    !isAbsolute(relation)
+  );
+}
+
+// Leading bytes of the binary formats that may be uploaded
+const uploadSignatures: Array<{ mimeType: string; matches: (data: Buffer) => boolean }> = [
+  {
+    mimeType: 'image/png',
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')),
+  },
+  {
+    mimeType: 'image/jpeg',
+    matches: (data) => data.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex')),
+  },
+  {
+    mimeType: 'image/gif',
+    matches: (data) => ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1')),
+  },
+  {
+    mimeType: 'image/webp',
+    matches: (data) =>
+      data.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      data.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  {
+    mimeType: 'application/pdf',
+    matches: (data) => data.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+  {
+    mimeType: 'application/zip',
+    matches: (data) =>
+      ['PK\x03\x04', 'PK\x05\x06'].includes(data.subarray(0, 4).toString('latin1')),
+  },
+];
+
+const binaryUploadMimeTypes = new Set(uploadSignatures.map((signature) => signature.mimeType));
+
+function isText(data: Buffer): boolean {
+  if (data.includes(0)) {
+    return false;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decides the MIME type from the file's content rather than trusting the
+ * caller: binary formats are recognized by their leading bytes, and anything
+ * else must be UTF-8 text with a text MIME type from `mimeType` or the
+ * extension. A declared type that contradicts the content is rejected.
+ */
+function resolveUploadMimeType(
+  fileName: string,
+  mimeType: string | undefined,
+  data: Buffer
+): string {
+  const declared =
+    normalizeMimeType(mimeType) || uploadMimeTypes[extname(fileName).slice(1).toLowerCase()];
+  const detected = uploadSignatures.find((signature) => signature.matches(data))?.mimeType;
+
+  if (detected) {
+    if (declared && declared !== detected) {
+      throw new Error(`Attachment "${fileName}" contains ${detected} data, not ${declared}`);
+    }
+    return detected;
+  }
+
+  if (!isText(data)) {
+    throw new Error(
+      `Attachment "${fileName}" is neither text nor a PNG, JPEG, GIF, WebP, PDF, or ZIP file`
+    );
+  }
+  if (!declared) {
+    throw new Error(`Cannot determine the MIME type of "${fileName}"; pass mimeType explicitly`);
+  }
+  if (!allowedUploadMimeTypes.has(declared)) {
+    throw new Error(`Attachment "${fileName}" has a disallowed MIME type: ${declared}`);
+  }
+  if (binaryUploadMimeTypes.has(declared)) {
+    throw new Error(`Attachment "${fileName}" contains text, not ${declared}`);
+  }
+
+  return declared;
+}
+
+async function readLocalUpload(
+  upload: AttachmentUpload & { path: string },
+  options: AttachmentUploadOptions
+): Promise<FreeScoutAttachmentUpload> {
+  if (!options.allowedDirectory) {
+    throw new Error(
+      'Local file attachments are disabled. Set FREESCOUT_ATTACHMENT_DIR or send base64 data instead.'
+    );
+  }
+
+  // Resolve symlinks on both sides so a link cannot point outside the directory
+  const directory = await realpath(options.allowedDirectory);
+  const target = await realpath(resolve(directory, upload.path)).catch(() => {
+    throw new Error(`Attachment file not found: ${upload.path}`);
+  });
+
+  if (!isInsideDirectory(directory, target)) {
+    throw new Error(`Attachment path is outside the allowed directory: ${upload.path}`);
+  }
+
+  const info = await stat(target);
+  if (!info.isFile()) {
+    throw new Error(`Attachment path is not a file: ${upload.path}`);
+  }
+  if (info.size > options.maxBytes) {
+    throw new Error(
+      `Attachment "${upload.path}" exceeds the ${options.maxBytes} byte upload limit`
+    );
+  }
+
+  const fileName = upload.fileName ?? basename(target);
+  const data = await readFile(target);
+  return {
+    fileName,
+    mimeType: resolveUploadMimeType(fileName, upload.mimeType, data),
+    data: data.toString('base64'),
+  };
+}
+
+function decodeInlineUpload(
+  upload: AttachmentUpload & { data: string },
+  options: AttachmentUploadOptions
+): FreeScoutAttachmentUpload {
+  if (!upload.fileName) {
+    throw new Error('fileName is required for base64 attachments');
+  }
+
+  const data = upload.data.replace(/\s/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) {
+    throw new Error(`Attachment "${upload.fileName}" is not valid base64 data`);
+  }
+  if (Buffer.byteLength(data, 'base64') > options.maxBytes) {
+    throw new Error(
+      `Attachment "${upload.fileName}" exceeds the ${options.maxBytes} byte upload limit`
+    );
+  }
+
+  return {
+    fileName: upload.fileName,
+    mimeType: resolveUploadMimeType(upload.fileName, upload.mimeType, Buffer.from(data, 'base64')),
+    data,
+  };
+}
+
+/**
+ * Turns tool attachment inputs into FreeScout upload payloads, enforcing the
+ * directory allow-list, size limit, and content-checked MIME allow-list
+ * before anything is sent.
+ */
+export async function prepareAttachmentUploads(
+  uploads: AttachmentUpload[],
+  options: AttachmentUploadOptions
+): Promise<FreeScoutAttachmentUpload[]> {
+  const prepared: FreeScoutAttachmentUpload[] = [];
+
+  for (const upload of uploads) {
+    if ((upload.path === undefined) === (upload.data === undefined)) {
+      throw new Error('Each attachment needs exactly one of path or data');
+    }
+
+    prepared.push(
+      upload.path !== undefined
+        ? await readLocalUpload({ ...upload, path: upload.path }, options)
+        : decodeInlineUpload({ ...upload, data: upload.data! }, options)
+    );
+  }
+
+  return prepared;
+}
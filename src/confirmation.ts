@@ -0,0 +1,98 @@
+import {
+  CLIENT_CAPABILITIES_META_KEY,
+  inputRequired,
+  inputResponse,
+  type ClientCapabilities,
+  type InputRequiredResult,
+  type ServerContext,
+} from '@modelcontextprotocol/server';
+
+export type ProtocolEra = 'legacy' | 'modern';
+
+export type ConfirmationOutcome =
+  | { status: 'confirmed' }
+  | { status: 'declined' }
+  | { status: 'unsupported' }
+  | { status: 'pending'; result: InputRequiredResult };
+
+export interface ConfirmationRequest {
+  era: ProtocolEra;
+  elicitationSupported: boolean;
+  message: string;
+}
+
+const CONFIRMATION_KEY = 'confirm';
+
+const confirmationSchema = {
+  type: 'object' as const,
+  properties: {
+    confirm: {
+      type: 'boolean' as const,
+      title: 'Confirm',
+      description: 'Select to proceed',
+    },
+  },
+  required: ['confirm'],
+};
+
+/**
+ * The capabilities the calling client declared in this request's `_meta`
+ * envelope. Only 2026-era requests carry one; legacy connections declare
+ * their capabilities once, at `initialize`.
+ */
+export function requestClientCapabilities(ctx: ServerContext): ClientCapabilities | undefined {
+  const envelope = ctx.mcpReq.envelope as Record<string, unknown> | undefined;
+  return envelope?.[CLIENT_CAPABILITIES_META_KEY] as ClientCapabilities | undefined;
+}
+
+const isConfirmed = (action: string, content: Record<string, unknown> | undefined) =>
+  action === 'accept' && content?.confirm === true;
+
+/**
+ * Asks the user to confirm an action through MCP elicitation. Modern-era
+ * requests use the multi-round-trip flow, so the first call returns a
+ * `pending` result for the handler to hand back and the retried call carries
+ * the answer. Legacy connections push the elicitation request directly.
+ */
+export async function requestConfirmation(
+  ctx: ServerContext,
+  request: ConfirmationRequest
+): Promise<ConfirmationOutcome> {
+  if (request.era === 'modern') {
+    const response = inputResponse(ctx.mcpReq.inputResponses, CONFIRMATION_KEY);
+    if (response.kind === 'elicit') {
+      return isConfirmed(response.action, response.content)
+        ? { status: 'confirmed' }
+        : { status: 'declined' };
+    }
+
+    if (!request.elicitationSupported) {
+      return { status: 'unsupported' };
+    }
+
+    return {
+      status: 'pending',
+      result: inputRequired({
+        inputRequests: {
+          [CONFIRMATION_KEY]: inputRequired.elicit({
+            message: request.message,
+            requestedSchema: confirmationSchema,
+          }),
+        },
+      }),
+    };
+  }
+
+  if (!request.elicitationSupported) {
+    return { status: 'unsupported' };
+  }
+
+  const result = await ctx.mcpReq.elicitInput({
+    message: request.message,
+    requestedSchema: confirmationSchema,
+  });
+
+  return isConfirmed(result.action, result.content)
+    ? { status: 'confirmed' }
+    : { status: 'declined' };
+}
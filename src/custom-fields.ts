@@ -0,0 +1,119 @@
+import type { FreeScoutCustomField, FreeScoutCustomFieldValue } from './types.js';
+
+export type CustomFieldInput = string | number | null;
+
+function dropdownOptions(field: FreeScoutCustomField): Array<[string, string]> {
+  if (!field.options) {
+    return [];
+  }
+
+  return Array.isArray(field.options)
+    ? field.options.map((label, index) => [String(index), label])
+    : Object.entries(field.options);
+}
+
+// Plain decimals only: Number() would also take hex, binary, and exponents
+const DECIMAL_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Finds the mailbox field for a caller-supplied key, which may be the field
+ * ID or its name (case-insensitive).
+ */
+export function findCustomField(
+  definitions: FreeScoutCustomField[],
+  key: string
+): FreeScoutCustomField | undefined {
+  const trimmed = key.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const byId = definitions.find((field) => field.id === Number(trimmed));
+    if (byId) return byId;
+  }
+
+  return definitions.find((field) => field.name.toLowerCase() === trimmed.toLowerCase());
+}
+
+/**
+ * Validates requested values against the mailbox field definitions and
+ * normalizes them into the shape FreeScout stores. Dropdown values may be
+ * given as the option label or its key; `null` or an empty string clears a
+ * field. Every problem is reported at once so the caller can fix them together.
+ */
+export function validateCustomFieldValues(
+  definitions: FreeScoutCustomField[],
+  values: Record<string, CustomFieldInput>
+): FreeScoutCustomFieldValue[] {
+  const errors: string[] = [];
+  const normalized: FreeScoutCustomFieldValue[] = [];
+
+  for (const [key, raw] of Object.entries(values)) {
+    const field = findCustomField(definitions, key);
+    if (!field) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+
+    const value = raw === null ? '' : String(raw).trim();
+
+    if (value === '') {
+      if (field.required) {
+        errors.push(`"${field.name}" is required and cannot be cleared`);
+      } else {
+        normalized.push({ id: field.id, value: '' });
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'dropdown': {
+        const options = dropdownOptions(field);
+        const match = options.find(
+          ([optionKey, label]) => optionKey === value || label.toLowerCase() === value.toLowerCase()
+        );
+        if (!match) {
+          errors.push(
+            `"${field.name}" must be one of: ${options.map(([, label]) => label).join(', ')}`
+          );
+        } else {
+          normalized.push({ id: field.id, value: match[0] });
+        }
+        break;
+      }
+      case 'number':
+        if (!DECIMAL_NUMBER.test(value)) {
+          errors.push(`"${field.name}" must be a decimal number`);
+        } else {
+          // Kept as written: converting would round long numbers and drop zeros
+          normalized.push({ id: field.id, value });
+        }
+        break;
+      case 'date':
+        if (!isValidDate(value)) {
+          errors.push(`"${field.name}" must be a date in YYYY-MM-DD format`);
+        } else {
+          normalized.push({ id: field.id, value });
+        }
+        break;
+      default:
+        if (field.type === 'single_line' && value.includes('\n')) {
+          errors.push(`"${field.name}" must be a single line`);
+        } else {
+          normalized.push({ id: field.id, value });
+        }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid custom field values: ${errors.join('; ')}`);
+  }
+
+  return normalized;
+}
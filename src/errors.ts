@@ -0,0 +1,198 @@
+export interface FreeScoutErrorDetails {
+  /** HTTP status, when FreeScout answered at all. */
+  status?: number;
+  method: string;
+  /** The API path, e.g. `/conversations/123?embed=threads,tags`, or the full URL outside the API. */
+  endpoint: string;
+  /** The response body, parsed as JSON when possible. */
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failed FreeScout requests. Subclasses tell callers what went
+ * wrong without parsing the message, and `retryable` drives the retry logic.
+ */
+export class FreeScoutAPIError extends Error {
+  readonly status: number | undefined;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly body: unknown;
+
+  constructor(message: string, details: FreeScoutErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.body = details.body;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+
+  /** The message FreeScout sent in the response body, if any. */
+  get detail(): string | undefined {
+    if (typeof this.body === 'string') {
+      return this.body.trim() || undefined;
+    }
+
+    const body = this.body as { message?: unknown; error?: unknown } | undefined;
+    const message = body?.message ?? body?.error;
+    return typeof message === 'string' ? message : undefined;
+  }
+}
+
+/** 404: the ticket, thread, customer, or mailbox does not exist. */
+export class FreeScoutNotFoundError extends FreeScoutAPIError {}
+
+/** 401 or 403: the API key is invalid or lacks access. */
+export class FreeScoutAuthError extends FreeScoutAPIError {}
+
+/** 400 or 422: FreeScout rejected the request body or parameters. */
+export class FreeScoutValidationError extends FreeScoutAPIError {
+  /** Field-level messages from the response body, e.g. `customer.email: is invalid`. */
+  get fieldErrors(): string[] {
+    const body = this.body as { errors?: unknown; _embedded?: { errors?: unknown } } | undefined;
+    const errors = body?._embedded?.errors ?? body?.errors;
+
+    if (Array.isArray(errors)) {
+      return errors.map((error: { path?: unknown; property?: unknown; message?: unknown }) => {
+        const field = error?.path ?? error?.property;
+        const message = typeof error?.message === 'string' ? error.message : String(error);
+        return field ? `${String(field)}: ${message}` : message;
+      });
+    }
+
+    if (errors && typeof errors === 'object') {
+      return Object.entries(errors).map(
+        ([field, messages]) =>
+          `${field}: ${Array.isArray(messages) ? messages.join(', ') : String(messages)}`
+      );
+    }
+
+    return [];
+  }
+}
+
+/** 429: FreeScout is rate limiting this API key. */
+export class FreeScoutRateLimitError extends FreeScoutAPIError {
+  constructor(
+    message: string,
+    details: FreeScoutErrorDetails,
+    /** How long FreeScout asked callers to wait, from `Retry-After`. */
+    readonly retryAfterMs?: number
+  ) {
+    super(message, details);
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+/** Methods FreeScout can receive twice without repeating a change. */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+/** 5xx: FreeScout or a proxy in front of it failed. */
+export class FreeScoutServerError extends FreeScoutAPIError {
+  /**
+   * A 503 means the request was not processed. A gateway answering 502 or 504
+   * may already have forwarded a POST, so only idempotent requests repeat then.
+   */
+  override get retryable(): boolean {
+    if (this.status === 503) {
+      return true;
+    }
+    return (
+      (this.status === 502 || this.status === 504) &&
+      IDEMPOTENT_METHODS.has(this.method.toUpperCase())
+    );
+  }
+}
+
+/** The request did not finish within the configured timeout. */
+export class FreeScoutTimeoutError extends FreeScoutAPIError {
+  constructor(
+    message: string,
+    details: FreeScoutErrorDetails,
+    readonly timeoutMs: number
+  ) {
+    super(message, details);
+  }
+}
+
+/** The connection failed before FreeScout answered, e.g. a reset or DNS failure. */
+export class FreeScoutNetworkError extends FreeScoutAPIError {
+  /** A POST may have reached FreeScout before the connection dropped, so it is not repeated. */
+  override get retryable(): boolean {
+    return IDEMPOTENT_METHODS.has(this.method.toUpperCase());
+  }
+}
+
+/** A response field that does not match its schema. */
+export interface ResponseDrift {
+  /** Where the field is, e.g. `_embedded.threads[0].type`. */
+  path: string;
+  message: string;
+}
+
+/** FreeScout answered, but the response does not match its schema (strict validation only). */
+export class FreeScoutResponseValidationError extends FreeScoutAPIError {
+  constructor(
+    message: string,
+    details: FreeScoutErrorDetails,
+    readonly drift: ResponseDrift[]
+  ) {
+    super(message, details);
+  }
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Builds the typed error for an unsuccessful response. Messages keep the
+ * status code so logs stay readable.
+ */
+export function createFreeScoutError(
+  response: { status: number },
+  responseText: string,
+  request: { method: string; endpoint: string },
+  retryAfterMs?: number
+): FreeScoutAPIError {
+  const { status } = response;
+  const details: FreeScoutErrorDetails = { ...request, status, body: parseBody(responseText) };
+
+  if (status === 429) {
+    return new FreeScoutRateLimitError(
+      `FreeScout API rate limit (429): ${responseText}`,
+      details,
+      retryAfterMs
+    );
+  }
+  if (status >= 500) {
+    return new FreeScoutServerError(
+      `FreeScout API server error (${status}): ${responseText}`,
+      details
+    );
+  }
+
+  const message = `FreeScout API error: ${status} - ${responseText}`;
+  if (status === 404) {
+    return new FreeScoutNotFoundError(message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new FreeScoutAuthError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new FreeScoutValidationError(message, details);
+  }
+  return new FreeScoutAPIError(message, details);
+}
@@ -1,10 +1,51 @@
+import type { z } from 'zod';
 import type {
+  CustomerSearchFilters,
+  FreeScoutAttachmentUpload,
+  CustomerUpdate,
   FreeScoutConversation,
+  FreeScoutCustomer,
+  FreeScoutCustomField,
+  FreeScoutCustomFieldValue,
   FreeScoutApiResponse,
+  FreeScoutMailboxList,
+  FreeScoutNewConversation,
+  FreeScoutUser,
   FreeScoutRecipients,
   FreeScoutThread,
+  FreeScoutThreadUpdate,
+  ResolvedTicket,
   SearchFilters,
+  TicketReference,
 } from './types.js';
+import {
+  ApiResponseSchema,
+  ConversationSchema,
+  CustomerSchema,
+  MailboxListSchema,
+  NoContentSchema,
+  ThreadSchema,
+} from './types.js';
+import {
+  createFreeScoutError,
+  FreeScoutAPIError,
+  FreeScoutNetworkError,
+  FreeScoutNotFoundError,
+  FreeScoutTimeoutError,
+} from './errors.js';
+import { resolveDraftReplyRecipients } from './draft-recipients.js';
+import type { ResponseCache } from './response-cache.js';
+import { parseRetryAfter, RequestScheduler } from './request-scheduler.js';
+import { ResponseValidator } from './response-validation.js';
+import {
+  clientSideSearchFilters,
+  matchesClientSideFilters,
+  parseRelativeTime,
+  reachedBeforeLimit,
+  searchSort,
+  type ClientSideCriteria,
+} from './search-filters.js';
+import { TicketNumberIndex } from './ticket-numbers.js';
 
 interface RetryOptions {
   maxRetries?: number;
@@ -13,14 +54,61 @@ interface RetryOptions {
   timeout?: number;
 }
 
+/**
+ * State shared between clients that use the same API key, since a fresh
+ * client is built for every connection.
+ */
+export interface FreeScoutAPIServices {
+  /** Caches conversations, mailboxes, and users. */
+  cache?: ResponseCache;
+  /** Bounds concurrency and request rate. Defaults to a scheduler of its own. */
+  scheduler?: RequestScheduler;
+  /** Checks responses against their schemas. Defaults to warning about drift. */
+  validator?: ResponseValidator;
+  /** Maps ticket numbers to conversation IDs. Defaults to an index of its own. */
+  ticketNumbers?: TicketNumberIndex;
+}
+
+/** One page of search results, as yielded by {@link FreeScoutAPI.iterateConversations}. */
+export interface ConversationPage {
+  conversations: FreeScoutConversation[];
+  /** The 1-based page number. */
+  page: number;
+  /** How many conversations FreeScout puts on a page, before client-side filtering. */
+  pageSize: number;
+  totalPages: number;
+  totalCount: number;
+  /** Whether a later page can still hold matching conversations. */
+  hasMore: boolean;
+}
+
+/** A search response after client-side filtering. */
+export type ConversationSearchResponse = FreeScoutApiResponse & {
+  /** Set when the sort shows that no later page can match a `*Before` filter. */
+  exhausted?: boolean;
+};
+
 export class FreeScoutAPI {
   private baseUrl: string;
   private apiKey: string;
   private retryOptions: Required<RetryOptions>;
-
-  constructor(baseUrl: string, apiKey: string, retryOptions?: RetryOptions) {
+  private cache?: ResponseCache;
+  private scheduler: RequestScheduler;
+  private validator: ResponseValidator;
+  private ticketNumbers: TicketNumberIndex;
+
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    retryOptions?: RetryOptions,
+    services: FreeScoutAPIServices = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.apiKey = apiKey;
+    this.cache = services.cache;
+    this.scheduler = services.scheduler ?? new RequestScheduler();
+    this.validator = services.validator ?? new ResponseValidator();
+    this.ticketNumbers = services.ticketNumbers ?? new TicketNumberIndex();
     this.retryOptions = {
       maxRetries: retryOptions?.maxRetries ?? 3,
       initialDelay: retryOptions?.initialDelay ?? 1000,
@@ -29,35 +117,6 @@ export class FreeScoutAPI {
     };
   }
 
-  /**
-   * Parse relative time strings like "7d", "24h", "30m" to ISO date
-   */
-  private parseRelativeTime(relative: string): string | null {
-    const match = relative.match(/^(\d+)([dhm])$/);
-    if (!match) return null;
-
-    const value = Number.parseInt(match[1], 10);
-    if (!Number.isFinite(value) || value <= 0 || value > 10000) {
-      return null;
-    }
-    const unit = match[2];
-    const now = new Date();
-
-    switch (unit) {
-      case 'd':
-        now.setDate(now.getDate() - value);
-        break;
-      case 'h':
-        now.setHours(now.getHours() - value);
-        break;
-      case 'm':
-        now.setMinutes(now.getMinutes() - value);
-        break;
-    }
-
-    return now.toISOString();
-  }
-
   /**
    * Exponential backoff retry logic with jitter
    */
@@ -70,25 +129,25 @@ export class FreeScoutAPI {
       return await fn();
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
-      const isRetryable =
-        message.includes('ECONNRESET') ||
-        message.includes('ETIMEDOUT') ||
-        message.includes('429') ||
-        message.includes('503') ||
-        message.includes('502');
+      const isRetryable = error instanceof FreeScoutAPIError && error.retryable;
 
       if (!isRetryable || retryCount >= this.retryOptions.maxRetries) {
         throw error;
       }
 
-      // Exponential backoff with jitter
-      const delay = Math.min(
-        this.retryOptions.initialDelay * Math.pow(2, retryCount) + Math.random() * 1000,
-        this.retryOptions.maxDelay
-      );
+      // Exponential backoff with jitter, unless FreeScout sent Retry-After:
+      // the scheduler then holds the retry until the pause ends.
+      const pausedForMs = this.scheduler.state.pausedForMs;
+      const delay =
+        pausedForMs > 0
+          ? 0
+          : Math.min(
+              this.retryOptions.initialDelay * Math.pow(2, retryCount) + Math.random() * 1000,
+              this.retryOptions.maxDelay
+            );
 
       console.error(
-        `[FreeScout API] Retry ${retryCount + 1}/${this.retryOptions.maxRetries} after ${Math.round(delay)}ms. Error: ${message}`
+        `[FreeScout API] Retry ${retryCount + 1}/${this.retryOptions.maxRetries} after ${Math.round(delay || pausedForMs)}ms. Error: ${message}`
       );
 
       await this.sleep(delay);
@@ -280,73 +339,292 @@ export class FreeScoutAPI {
     return this.markdownToHtml(text);
   }
 
-  private async request<T>(path: string, method: string = 'GET', body?: unknown): Promise<T> {
-    return this.retryWithBackoff(async () => {
-      const url = `${this.baseUrl}/api${path}`;
-
-      const headers: Record<string, string> = {
-        'X-FreeScout-API-Key': this.apiKey,
-      };
-
-      if (body) {
-        headers['Content-Type'] = 'application/json';
-      }
+  /**
+   * Performs a single fetch with the configured timeout and converts non-2xx
+   * responses into errors that carry the status code for the retry logic.
+   * `init.signal` cancels the request, whether it is still queued or in flight.
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const cancel = init.signal ?? undefined;
+    const apiPrefix = `${this.baseUrl}/api`;
+    const request = {
+      method: init.method ?? 'GET',
+      endpoint: url.startsWith(apiPrefix) ? url.slice(apiPrefix.length) : url,
+    };
 
+    // The timeout starts once the scheduler lets the request through
+    return this.scheduler.schedule(async () => {
       // Create abort controller for timeout
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.retryOptions.timeout);
 
       try {
         const response = await fetch(url, {
-          method,
-          headers,
-          body: body ? JSON.stringify(body) : undefined,
-          signal: controller.signal,
+          ...init,
+          signal: cancel ? AbortSignal.any([controller.signal, cancel]) : controller.signal,
         });
 
         clearTimeout(timeoutId);
 
-        if (!response.ok) {
+        // 304 answers a conditional request; the caller reuses its cached copy
+        if (!response.ok && response.status !== 304) {
           const errorText = await response.text();
+          let retryAfter: number | undefined;
 
-          // Include status code in error for retry logic
-          if (response.status === 429) {
-            throw new Error(`FreeScout API rate limit (429): ${errorText}`);
+          if (response.status === 429 || response.status === 503) {
+            retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+            if (retryAfter !== undefined) {
+              this.scheduler.pause(retryAfter);
+            }
           }
-          if (response.status >= 500) {
-            throw new Error(`FreeScout API server error (${response.status}): ${errorText}`);
-          }
-
-          throw new Error(`FreeScout API error: ${response.status} - ${errorText}`);
-        }
 
-        // FreeScout returns 204 No Content for successful update operations.
-        // Do not attempt JSON parsing when the response intentionally has no body.
-        if (response.status === 204) {
-          return undefined as T;
+          throw createFreeScoutError(response, errorText, request, retryAfter);
         }
 
-        return response.json() as Promise<T>;
+        return response;
       } catch (error: unknown) {
         clearTimeout(timeoutId);
 
+        if (error instanceof FreeScoutAPIError) {
+          throw error;
+        }
+
+        // A cancelled caller is not a FreeScout failure, so it is never retried
+        if (cancel?.aborted) {
+          throw cancel.reason;
+        }
+
         if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error(`FreeScout API timeout after ${this.retryOptions.timeout}ms`, {
-            cause: error,
-          });
+          throw new FreeScoutTimeoutError(
+            `FreeScout API timeout after ${this.retryOptions.timeout}ms`,
+            { ...request, cause: error },
+            this.retryOptions.timeout
+          );
         }
 
-        throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new FreeScoutNetworkError(`FreeScout API request failed: ${message}`, {
+          ...request,
+          cause: error,
+        });
+      }
+    }, cancel);
+  }
+
+  /**
+   * Sends a request and parses the JSON response, which is checked against
+   * `schema` in the configured validation mode.
+   */
+  private async request<S extends z.ZodType>(
+    path: string,
+    method: string,
+    body: unknown,
+    schema: S,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<z.infer<S>> {
+    return this.retryWithBackoff(async () => {
+      const url = `${this.baseUrl}/api${path}`;
+
+      const headers: Record<string, string> = {
+        'X-FreeScout-API-Key': this.apiKey,
+      };
+
+      if (body) {
+        headers['Content-Type'] = 'application/json';
+      }
+
+      const response = await this.fetchWithTimeout(url, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: options.signal,
+      });
+
+      // FreeScout returns 204 No Content for successful update operations.
+      // Do not attempt JSON parsing when the response intentionally has no body.
+      if (response.status === 204) {
+        return undefined as z.infer<S>;
       }
+
+      const data: unknown = await response.json();
+      return this.validator.validate(schema, data, { method, endpoint: path });
     });
   }
 
+  /**
+   * GET a response through the cache. Fresh entries are returned without a
+   * request; stale entries are revalidated with the ETag or Last-Modified
+   * validators FreeScout sent, when it sent any. `revalidate` treats every
+   * entry as stale, for reads that decide a write and must see changes made
+   * in the web UI.
+   */
+  private async cachedRequest<S extends z.ZodType>(
+    path: string,
+    tags: string[],
+    schema: S,
+    options: { revalidate?: boolean; signal?: AbortSignal } = {}
+  ): Promise<z.infer<S>> {
+    const cache = this.cache;
+    if (!cache) {
+      return this.request(path, 'GET', undefined, schema, { signal: options.signal });
+    }
+
+    const cached = cache.get<z.infer<S>>(path);
+    if (cached?.fresh && !options.revalidate) {
+      return cached.value;
+    }
+
+    const generation = cache.currentGeneration;
+    return this.retryWithBackoff(async () => {
+      const headers: Record<string, string> = { 'X-FreeScout-API-Key': this.apiKey };
+      if (cached?.etag) headers['If-None-Match'] = cached.etag;
+      if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+      const response = await this.fetchWithTimeout(`${this.baseUrl}/api${path}`, {
+        method: 'GET',
+        headers,
+        signal: options.signal,
+      });
+
+      if (response.status === 304 && cached) {
+        cache.touch(path);
+        return cached.value;
+      }
+
+      // Validated before caching, so strict mode never caches a drifted response
+      const data: unknown = await response.json();
+      const value = this.validator.validate(schema, data, { method: 'GET', endpoint: path });
+      cache.set(path, value, {
+        tags,
+        generation,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      });
+      return value;
+    });
+  }
+
+  /**
+   * Drop cached copies of a conversation after it changes.
+   */
+  invalidateConversation(ticketId: string | number): void {
+    this.cache?.invalidate(`conversation:${ticketId}`);
+  }
+
+  /**
+   * Download attachment content with a size limit. Relative URLs resolve
+   * against the FreeScout instance, and the API key is only sent to that
+   * host so it never leaks to third-party storage URLs. The body is read as a
+   * stream and abandoned as soon as it passes `maxBytes`, so an attachment
+   * without a Content-Length is never held in full. With `truncate`, the
+   * first `maxBytes` are returned instead of an error. The request timeout
+   * only covers the response headers, so each read of the body is held to
+   * the same timeout and a stalled download fails instead of hanging.
+   */
+  async downloadAttachment(
+    url: string,
+    maxBytes: number,
+    options: { truncate?: boolean } = {}
+  ): Promise<{ data: Buffer; mimeType: string | null; truncated: boolean }> {
+    const resolved = new URL(url, `${this.baseUrl}/`);
+    const headers: Record<string, string> = {};
+
+    if (resolved.origin === new URL(this.baseUrl).origin) {
+      headers['X-FreeScout-API-Key'] = this.apiKey;
+    }
+
+    const response = await this.retryWithBackoff(() =>
+      this.fetchWithTimeout(resolved.toString(), { method: 'GET', headers })
+    );
+    const tooLarge = () => new Error(`Attachment exceeds the download limit of ${maxBytes} bytes`);
+
+    // Size errors are raised outside the retry loop so they are never retried
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (!options.truncate && Number.isFinite(declaredSize) && declaredSize > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+    const { timeout } = this.retryOptions;
+    const readChunk = async (body: ReadableStreamDefaultReader<Uint8Array>) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stalled = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(
+            new FreeScoutTimeoutError(
+              `Attachment download stalled for ${timeout}ms`,
+              { method: 'GET', endpoint: resolved.toString() },
+              timeout
+            )
+          );
+        }, timeout);
+      });
+
+      try {
+        return await Promise.race([body.read(), stalled]);
+      } catch (error) {
+        await body.cancel().catch(() => undefined);
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+
+    while (reader) {
+      const { done, value } = await readChunk(reader);
+      if (done) {
+        break;
+      }
+
+      if (size + value.byteLength > maxBytes) {
+        await reader.cancel();
+        if (!options.truncate) {
+          throw tooLarge();
+        }
+        chunks.push(Buffer.from(value.subarray(0, maxBytes - size)));
+        return {
+          data: Buffer.concat(chunks),
+          mimeType: response.headers.get('content-type'),
+          truncated: true,
+        };
+      }
+
+      chunks.push(Buffer.from(value));
+      size += value.byteLength;
+    }
+
+    return {
+      data: Buffer.concat(chunks),
+      mimeType: response.headers.get('content-type'),
+      truncated: false,
+    };
+  }
+
+  /**
+   * Fetch a conversation. `fresh` revalidates a cached copy with FreeScout
+   * first, for callers about to change the ticket based on what they read.
+   */
   async getConversation(
     ticketId: string,
-    includeThreads: boolean = true
+    includeThreads: boolean = true,
+    options: { fresh?: boolean; signal?: AbortSignal } = {}
   ): Promise<FreeScoutConversation> {
-    const embed = includeThreads ? '?embed=threads' : '';
-    return this.request<FreeScoutConversation>(`/conversations/${ticketId}${embed}`);
+    // Tags come along so a ticket loaded while resolving it can answer tag reads
+    const embed = includeThreads ? '?embed=threads,tags' : '';
+    const conversation = await this.cachedRequest(
+      `/conversations/${ticketId}${embed}`,
+      ['conversation', `conversation:${ticketId}`],
+      ConversationSchema,
+      { revalidate: options.fresh, signal: options.signal }
+    );
+
+    if (Number.isInteger(conversation.id) && Number.isInteger(conversation.number)) {
+      this.ticketNumbers.record(conversation.id, conversation.number);
+    }
+    return conversation;
   }
 
   async addThread(
@@ -355,7 +633,8 @@ export class FreeScoutAPI {
     text: string,
     userId?: number,
     state?: 'draft' | 'published',
-    recipients?: FreeScoutRecipients
+    recipients?: FreeScoutRecipients,
+    attachments?: FreeScoutAttachmentUpload[]
   ): Promise<FreeScoutThread> {
     const formattedText = this.formatForFreeScoutEditor(text);
     const body: {
@@ -366,6 +645,7 @@ export class FreeScoutAPI {
       to?: string[];
       cc?: string[];
       bcc?: string[];
+      attachments?: FreeScoutAttachmentUpload[];
     } = {
       type,
       text: formattedText,
@@ -391,16 +671,215 @@ export class FreeScoutAPI {
       body.bcc = recipients.bcc;
     }
 
-    return this.request<FreeScoutThread>(`/conversations/${ticketId}/threads`, 'POST', body);
+    if (attachments && attachments.length > 0) {
+      body.attachments = attachments;
+    }
+
+    try {
+      return await this.request(`/conversations/${ticketId}/threads`, 'POST', body, ThreadSchema);
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
   }
 
+  /**
+   * Save a draft reply. With `replaceExisting`, the user's most recent draft
+   * on the ticket is updated in place instead of stacking another one, and
+   * the updated draft is read back. A replaced draft only changes the
+   * recipients given in `recipients`; a new draft falls back to
+   * `fallbackRecipients`, usually the conversation's, for the fields left out.
+   */
   async createDraftReply(
     ticketId: string,
     text: string,
     userId: number,
-    recipients?: FreeScoutRecipients
+    recipients: FreeScoutRecipients = {},
+    attachments?: FreeScoutAttachmentUpload[],
+    options: { replaceExisting?: boolean; fallbackRecipients?: FreeScoutRecipients } = {}
   ): Promise<FreeScoutThread> {
-    return this.addThread(ticketId, 'message', text, userId, 'draft', recipients);
+    if (options.replaceExisting) {
+      // Read fresh so a draft saved in the web UI moments ago is replaced, not duplicated
+      const existing = (await this.getDrafts(ticketId, { fresh: true }))
+        .filter((draft) => draft.created_by?.type === 'user' && draft.created_by.id === userId)
+        .pop();
+
+      if (existing) {
+        await this.updateThread(ticketId, existing.id, { text, recipients, attachments });
+        const updated = (
+          await this.getConversation(ticketId, true, { fresh: true })
+        )._embedded?.threads?.find((thread) => thread.id === existing.id);
+
+        if (!updated) {
+          throw new Error(
+            `Draft ${existing.id} on ticket ${ticketId} was updated but is no longer on the ticket`
+          );
+        }
+        return updated;
+      }
+    }
+
+    return this.addThread(
+      ticketId,
+      'message',
+      text,
+      userId,
+      'draft',
+      resolveDraftReplyRecipients(recipients, options.fallbackRecipients ?? {}),
+      attachments
+    );
+  }
+
+  /**
+   * List the unsent draft replies on a conversation, oldest first.
+   */
+  async getDrafts(ticketId: string, options: { fresh?: boolean } = {}): Promise<FreeScoutThread[]> {
+    const conversation = await this.getConversation(ticketId, true, options);
+    return (conversation._embedded?.threads || [])
+      .filter((thread) => thread.state === 'draft')
+      .sort(
+        (a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+      );
+  }
+
+  /**
+   * Update a thread in place. Only the fields that are provided are sent, so
+   * omitted recipients keep their current values.
+   */
+  async updateThread(
+    ticketId: string,
+    threadId: number,
+    updates: FreeScoutThreadUpdate
+  ): Promise<void> {
+    const body: {
+      text?: string;
+      state?: 'draft' | 'published';
+      to?: string[];
+      cc?: string[];
+      bcc?: string[];
+      attachments?: FreeScoutAttachmentUpload[];
+    } = {};
+
+    if (updates.text !== undefined) {
+      body.text = this.formatForFreeScoutEditor(updates.text);
+    }
+
+    if (updates.state) {
+      body.state = updates.state;
+    }
+
+    for (const field of ['to', 'cc', 'bcc'] as const) {
+      if (updates.recipients?.[field] !== undefined) {
+        body[field] = updates.recipients[field];
+      }
+    }
+
+    if (updates.attachments && updates.attachments.length > 0) {
+      body.attachments = updates.attachments;
+    }
+
+    try {
+      await this.request(
+        `/conversations/${ticketId}/threads/${threadId}`,
+        'PUT',
+        body,
+        NoContentSchema
+      );
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
+  }
+
+  async deleteThread(ticketId: string, threadId: number): Promise<void> {
+    try {
+      await this.request(
+        `/conversations/${ticketId}/threads/${threadId}`,
+        'DELETE',
+        undefined,
+        NoContentSchema
+      );
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
+  }
+
+  /**
+   * Send a draft reply to the customer by publishing it.
+   */
+  async publishDraft(ticketId: string, threadId: number): Promise<void> {
+    await this.updateThread(ticketId, threadId, { state: 'published' });
+  }
+
+  /**
+   * Open a new conversation with its first thread. Drafts are saved without
+   * notifying the customer so they can be reviewed in FreeScout first.
+   */
+  async createConversation(conversation: FreeScoutNewConversation): Promise<FreeScoutConversation> {
+    const thread: {
+      type: 'customer' | 'message' | 'note';
+      text: string;
+      user?: number;
+      customer?: { id: number } | { email: string };
+      to?: string[];
+      cc?: string[];
+      bcc?: string[];
+    } = {
+      type: conversation.threadType,
+      text: this.formatForFreeScoutEditor(conversation.text),
+    };
+
+    if (conversation.threadType === 'customer') {
+      thread.customer = conversation.customer;
+    } else if (conversation.userId) {
+      thread.user = conversation.userId;
+    }
+
+    if (conversation.recipients?.to !== undefined) {
+      thread.to = conversation.recipients.to;
+    }
+
+    if (conversation.recipients?.cc !== undefined) {
+      thread.cc = conversation.recipients.cc;
+    }
+
+    if (conversation.recipients?.bcc !== undefined) {
+      thread.bcc = conversation.recipients.bcc;
+    }
+
+    const body: {
+      type: 'email';
+      mailboxId: number;
+      subject: string;
+      customer: { id: number } | { email: string };
+      threads: (typeof thread)[];
+      assignTo?: number;
+      status?: 'active' | 'pending' | 'closed';
+      tags?: string[];
+      state?: 'draft';
+    } = {
+      type: 'email',
+      mailboxId: conversation.mailboxId,
+      subject: conversation.subject,
+      customer: conversation.customer,
+      threads: [thread],
+    };
+
+    if (conversation.assignTo) {
+      body.assignTo = conversation.assignTo;
+    }
+
+    if (conversation.status) {
+      body.status = conversation.status;
+    }
+
+    if (conversation.tags && conversation.tags.length > 0) {
+      body.tags = conversation.tags;
+    }
+
+    if (conversation.draft) {
+      body.state = 'draft';
+    }
+
+    return this.request('/conversations', 'POST', body, ConversationSchema);
   }
 
   async updateConversation(
@@ -409,22 +888,78 @@ export class FreeScoutAPI {
       status?: 'active' | 'pending' | 'closed' | 'spam';
       assignTo?: number;
       byUser?: number;
+      mailboxId?: number;
+      customerId?: number;
+      subject?: string;
     }
   ): Promise<void> {
-    await this.request<unknown>(`/conversations/${ticketId}`, 'PUT', updates);
+    try {
+      await this.request(`/conversations/${ticketId}`, 'PUT', updates, NoContentSchema);
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
   }
 
   /**
-   * Search conversations with explicit filter parameters
+   * Merge a conversation into another one. The source conversation's threads
+   * move to the target and the source is removed from the mailbox.
+   */
+  async mergeConversations(sourceId: string, targetId: string, byUser?: number): Promise<void> {
+    const body: { conversationIds: number[]; byUser?: number } = {
+      conversationIds: [Number(sourceId)],
+    };
+
+    if (byUser) {
+      body.byUser = byUser;
+    }
+
+    try {
+      await this.request(`/conversations/${targetId}/merge`, 'POST', body, NoContentSchema);
+    } finally {
+      this.invalidateConversation(sourceId);
+      this.invalidateConversation(targetId);
+    }
+  }
+
+  /**
+   * Resolves a `*Before` filter, given as an ISO date or a relative time, to
+   * a timestamp.
+   */
+  private parseBeforeDate(name: string, value: string): number {
+    const time = Date.parse(parseRelativeTime(value) || value);
+    if (Number.isNaN(time)) {
+      throw new Error(`${name} must be an ISO date or a relative time like "7d", got "${value}"`);
+    }
+    return time;
+  }
+
+  /**
+   * Search conversations. FreeScout cannot filter by `createdBefore`,
+   * `updatedBefore`, or `waitingOn`, so those are applied to the returned
+   * page, which can then hold fewer conversations than `pageSize`. The page
+   * totals still describe FreeScout's results before that filtering.
    */
   async searchConversations(
-    filters: SearchFilters
-  ): Promise<FreeScoutApiResponse<FreeScoutConversation>> {
+    filters: SearchFilters,
+    options: { embedThreads?: boolean; signal?: AbortSignal } = {}
+  ): Promise<ConversationSearchResponse> {
     const params = new URLSearchParams();
+    const sort = searchSort(filters);
+    const criteria: ClientSideCriteria = {
+      createdBefore:
+        filters.createdBefore !== undefined
+          ? this.parseBeforeDate('createdBefore', filters.createdBefore)
+          : undefined,
+      updatedBefore:
+        filters.updatedBefore !== undefined
+          ? this.parseBeforeDate('updatedBefore', filters.updatedBefore)
+          : undefined,
+      waitingOn: filters.waitingOn,
+    };
 
-    // Text search
+    // Text search, across the whole ticket or the subject only
     if (filters.textSearch) {
-      params.append('query', filters.textSearch.trim());
+      params.append(filters.subjectOnly ? 'subject' : 'query', filters.textSearch.trim());
     }
 
     // Assignee filter
@@ -460,17 +995,44 @@ export class FreeScoutAPI {
       params.append('mailboxId', filters.mailboxId.toString());
     }
 
+    if (filters.folderId != null) {
+      params.append('folderId', filters.folderId.toString());
+    }
+
+    // Customer filters
+    if (filters.customerId != null) {
+      params.append('customerId', filters.customerId.toString());
+    }
+
+    if (filters.customerEmail) {
+      params.append('customerEmail', filters.customerEmail.trim());
+    }
+
+    // Tag filter
+    if (filters.tags && filters.tags.length > 0) {
+      params.append('tag', filters.tags.map((tag) => tag.trim()).join(','));
+    }
+
     // Date filters - convert relative times to ISO dates
     if (filters.updatedSince) {
-      const isoDate = this.parseRelativeTime(filters.updatedSince) || filters.updatedSince;
+      const isoDate = parseRelativeTime(filters.updatedSince) || filters.updatedSince;
       params.append('updatedSince', isoDate);
     }
 
     if (filters.createdSince) {
-      const isoDate = this.parseRelativeTime(filters.createdSince) || filters.createdSince;
+      const isoDate = parseRelativeTime(filters.createdSince) || filters.createdSince;
       params.append('createdSince', isoDate);
     }
 
+    // Sorting
+    if (sort.sortField) {
+      params.append('sortField', sort.sortField);
+    }
+
+    if (sort.sortOrder) {
+      params.append('sortOrder', sort.sortOrder);
+    }
+
     // Pagination
     if (filters.page) {
       params.append('page', filters.page.toString());
@@ -480,9 +1042,85 @@ export class FreeScoutAPI {
       params.append('per_page', filters.pageSize.toString());
     }
 
-    return this.request<FreeScoutApiResponse<FreeScoutConversation>>(
-      `/conversations?${params.toString()}`
+    // Embed threads so callers can build previews without one request per
+    // conversation, and so waitingOn can see the latest message
+    if (options.embedThreads || filters.waitingOn) {
+      params.append('embed', 'threads');
+    }
+
+    const response = await this.request(
+      `/conversations?${params.toString()}`,
+      'GET',
+      undefined,
+      ApiResponseSchema,
+      { signal: options.signal }
     );
+
+    if (clientSideSearchFilters(filters).length === 0 || !response._embedded?.conversations) {
+      return response;
+    }
+
+    const exhausted = reachedBeforeLimit(response._embedded.conversations, sort, criteria);
+    const conversations = response._embedded.conversations
+      .filter((conversation) => matchesClientSideFilters(conversation, criteria))
+      .map((conversation) => {
+        // Threads fetched only for waitingOn are not part of the result
+        if (options.embedThreads || !conversation._embedded) {
+          return conversation;
+        }
+        const { threads: _threads, ...embedded } = conversation._embedded;
+        return { ...conversation, _embedded: embedded };
+      });
+
+    return {
+      ...response,
+      _embedded: { ...response._embedded, conversations },
+      ...(exhausted && { exhausted }),
+    };
+  }
+
+  /**
+   * Pages through a search, yielding one page at a time from `filters.page`
+   * (default 1) until the last page, or until `maxPages` pages have been
+   * fetched. Stop early by breaking out of the loop. The signal is passed to
+   * each request, so cancelling stops the one that is queued or in flight and
+   * sends no further requests.
+   */
+  async *iterateConversations(
+    filters: SearchFilters,
+    options: { embedThreads?: boolean; signal?: AbortSignal; maxPages?: number } = {}
+  ): AsyncGenerator<ConversationPage, void, undefined> {
+    const { maxPages = Infinity, ...searchOptions } = options;
+    const filteredClientSide = clientSideSearchFilters(filters).length > 0;
+    let page = filters.page ?? 1;
+    let request = filters;
+
+    for (let fetched = 1; ; fetched++) {
+      searchOptions.signal?.throwIfAborted();
+      const response = await this.searchConversations(request, searchOptions);
+      const conversations = response._embedded?.conversations || [];
+      const totalPages = response.page?.total_pages ?? page;
+      // Client-side filters can empty a page that has more after it
+      const hasMore =
+        page < totalPages &&
+        !response.exhausted &&
+        (conversations.length > 0 || filteredClientSide);
+
+      yield {
+        conversations,
+        page,
+        pageSize: response.page?.size ?? conversations.length,
+        totalPages,
+        totalCount: response.page?.total_elements ?? conversations.length,
+        hasMore,
+      };
+
+      if (!hasMore || fetched >= maxPages) {
+        return;
+      }
+      page++;
+      request = { ...filters, page };
+    }
   }
 
   /**
@@ -493,7 +1131,7 @@ export class FreeScoutAPI {
     status?: string,
     state?: string,
     mailboxId?: number
-  ): Promise<FreeScoutApiResponse<FreeScoutConversation>> {
+  ): Promise<FreeScoutApiResponse> {
     const statusValue = status;
     const stateValue = state;
 
@@ -515,7 +1153,7 @@ export class FreeScoutAPI {
     status?: string,
     state?: string,
     assignee?: string | null
-  ): Promise<FreeScoutApiResponse<FreeScoutConversation>> {
+  ): Promise<FreeScoutApiResponse> {
     const params = new URLSearchParams();
     if (status) params.append('status', status);
     if (state) params.append('state', state);
@@ -527,13 +1165,167 @@ export class FreeScoutAPI {
       }
     }
 
-    return this.request<FreeScoutApiResponse<FreeScoutConversation>>(
-      `/conversations?${params.toString()}`
+    return this.request(`/conversations?${params.toString()}`, 'GET', undefined, ApiResponseSchema);
+  }
+
+  async getMailboxes(): Promise<FreeScoutMailboxList> {
+    return this.cachedRequest('/mailboxes', ['mailboxes'], MailboxListSchema);
+  }
+
+  async getUsers(page?: number): Promise<FreeScoutApiResponse> {
+    const params = new URLSearchParams();
+    if (page) params.append('page', page.toString());
+
+    return this.cachedRequest(`/users?${params.toString()}`, ['users'], ApiResponseSchema);
+  }
+
+  /**
+   * Load every user across all pages, for building the user directory.
+   */
+  async getAllUsers(): Promise<FreeScoutUser[]> {
+    const users: FreeScoutUser[] = [];
+    let page = 1;
+    let totalPages: number;
+
+    do {
+      const response = await this.getUsers(page);
+      users.push(...(response._embedded?.users || []));
+      totalPages = response.page?.total_pages ?? 1;
+      page++;
+    } while (page <= totalPages);
+
+    return users;
+  }
+
+  async getCustomFields(mailboxId: number): Promise<FreeScoutCustomField[]> {
+    const response = await this.request(
+      `/mailboxes/${mailboxId}/custom_fields`,
+      'GET',
+      undefined,
+      ApiResponseSchema
+    );
+    return response._embedded?.custom_fields || [];
+  }
+
+  async setCustomFields(ticketId: string, values: FreeScoutCustomFieldValue[]): Promise<void> {
+    try {
+      await this.request(
+        `/conversations/${ticketId}/custom_fields`,
+        'PUT',
+        { customFields: values },
+        NoContentSchema
+      );
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
+  }
+
+  async getTags(page?: number): Promise<FreeScoutApiResponse> {
+    const params = new URLSearchParams();
+    if (page) params.append('page', page.toString());
+
+    return this.request(`/tags?${params.toString()}`, 'GET', undefined, ApiResponseSchema);
+  }
+
+  /**
+   * Read a conversation's tag names. FreeScout lists them only when asked to
+   * embed tags.
+   */
+  async getConversationTags(ticketId: string): Promise<string[]> {
+    const conversation = await this.cachedRequest(
+      `/conversations/${ticketId}?embed=tags`,
+      ['conversation', `conversation:${ticketId}`],
+      ConversationSchema
+    );
+    return conversationTags(conversation);
+  }
+
+  /**
+   * Replace every tag on a conversation.
+   */
+  async setConversationTags(ticketId: string, tags: string[]): Promise<void> {
+    try {
+      await this.request(`/conversations/${ticketId}/tags`, 'PUT', { tags }, NoContentSchema);
+    } finally {
+      this.invalidateConversation(ticketId);
+    }
+  }
+
+  /**
+   * Add and/or remove tags on a conversation. FreeScout only supports
+   * replacing the full tag list, so the current tags are read first.
+   * Tag names are compared case-insensitively.
+   */
+  async updateConversationTags(
+    ticketId: string,
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<string[]> {
+    // Read the tags fresh so a cached list cannot drop tags added elsewhere
+    this.invalidateConversation(ticketId);
+    const removed = new Set((changes.remove || []).map((tag) => tag.toLowerCase()));
+    const current = await this.getConversationTags(ticketId);
+    const next = current.filter((tag) => !removed.has(tag.toLowerCase()));
+    const known = new Set(next.map((tag) => tag.toLowerCase()));
+
+    for (const tag of changes.add || []) {
+      if (!known.has(tag.toLowerCase())) {
+        known.add(tag.toLowerCase());
+        next.push(tag);
+      }
+    }
+
+    await this.setConversationTags(ticketId, next);
+    return next;
+  }
+
+  async getCustomer(customerId: number): Promise<FreeScoutCustomer> {
+    return this.request(`/customers/${customerId}`, 'GET', undefined, CustomerSchema);
+  }
+
+  /**
+   * Search customers by email, name, or phone. FreeScout has no company
+   * filter, so company matching is applied to the returned page.
+   */
+  async searchCustomers(filters: CustomerSearchFilters): Promise<FreeScoutApiResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.email) params.append('email', filters.email.trim());
+    if (filters.firstName) params.append('firstName', filters.firstName.trim());
+    if (filters.lastName) params.append('lastName', filters.lastName.trim());
+    if (filters.phone) params.append('phone', filters.phone.trim());
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.pageSize) params.append('pageSize', filters.pageSize.toString());
+
+    const response = await this.request(
+      `/customers?${params.toString()}`,
+      'GET',
+      undefined,
+      ApiResponseSchema
     );
+
+    const company = filters.company?.trim().toLowerCase();
+    if (!company || !response._embedded?.customers) {
+      return response;
+    }
+
+    return {
+      ...response,
+      _embedded: {
+        ...response._embedded,
+        customers: response._embedded.customers.filter((customer) =>
+          customer.company?.toLowerCase().includes(company)
+        ),
+      },
+    };
   }
 
-  async getMailboxes(): Promise<unknown> {
-    return this.request<unknown>('/mailboxes');
+  async updateCustomer(customerId: number, updates: CustomerUpdate): Promise<void> {
+    try {
+      await this.request(`/customers/${customerId}`, 'PUT', updates, NoContentSchema);
+    } finally {
+      // Conversations embed their customer
+      this.cache?.invalidate('conversation');
+    }
   }
 
   extractTicketIdFromUrl(url: string): string | null {
@@ -544,24 +1336,117 @@ export class FreeScoutAPI {
     return match ? match[1] : null;
   }
 
-  parseTicketInput(input: string): string {
-    // Check if input is a URL
-    if (input.includes('http')) {
-      const ticketId = this.extractTicketIdFromUrl(input);
-      if (ticketId) return ticketId;
+  /**
+   * Reads which ticket an argument names. URLs, `id:123`, and bare numbers
+   * are conversation IDs; `#4521` and `number:4521` are the ticket numbers
+   * shown to customers, which FreeScout numbers separately.
+   */
+  parseTicketReference(input: string): TicketReference {
+    const text = input.trim();
+
+    if (text.includes('http')) {
+      const ticketId = this.extractTicketIdFromUrl(text);
+      if (ticketId) return { kind: 'id', value: Number(ticketId) };
     }
 
-    // Check if input is numeric (ticket ID)
-    if (/^\d+$/.test(input.trim())) {
-      return input.trim();
+    const explicit = text.match(/^(id|number):\s*(\d+)$/i);
+    if (explicit) {
+      return { kind: explicit[1].toLowerCase() as 'id' | 'number', value: Number(explicit[2]) };
     }
 
-    // Try to extract ticket ID from text like "ticket #12345"
-    const match = input.match(/#?(\d+)/);
+    if (/^\d+$/.test(text)) {
+      return { kind: 'id', value: Number(text) };
+    }
+
+    // Text like "ticket #4521" names a number; any other digits are an ID
+    const numbered = text.match(/#(\d+)/);
+    if (numbered) {
+      return { kind: 'number', value: Number(numbered[1]) };
+    }
+
+    const match = text.match(/(\d+)/);
     if (match) {
-      return match[1];
+      return { kind: 'id', value: Number(match[1]) };
     }
 
     throw new Error(`Could not extract ticket ID from input: ${input}`);
   }
+
+  /**
+   * Resolves a ticket argument to both its conversation ID and its number.
+   * Numbers are looked up with a search, and IDs by loading the ticket, which
+   * is then returned as `conversation`. Either way the pairing is remembered,
+   * so each ticket is looked up at most once per process.
+   */
+  async resolveTicket(input: string): Promise<ResolvedTicket> {
+    const reference = this.parseTicketReference(input);
+
+    if (reference.kind === 'id') {
+      const id = String(reference.value);
+      const number = this.ticketNumbers.numberFor(reference.value);
+      if (number !== undefined) {
+        return { id, number };
+      }
+
+      // Handlers reuse the loaded ticket instead of fetching it again
+      const conversation = await this.getConversation(id, true);
+      return { id, number: conversation.number, conversation };
+    }
+
+    const id =
+      this.ticketNumbers.idFor(reference.value) ??
+      (await this.findConversationIdByNumber(reference.value));
+    return { id: String(id), number: reference.value };
+  }
+
+  private async findConversationIdByNumber(number: number): Promise<number> {
+    const path = `/conversations?number=${number}`;
+    const response = await this.request(path, 'GET', undefined, ApiResponseSchema);
+
+    // Check the number too: FreeScout ignores filters it does not support
+    const conversation = response._embedded?.conversations?.find(
+      (candidate) => candidate.number === number
+    );
+    if (!conversation) {
+      throw new FreeScoutNotFoundError(`No ticket with number #${number} was found`, {
+        method: 'GET',
+        endpoint: path,
+      });
+    }
+
+    this.ticketNumbers.record(conversation.id, conversation.number);
+    return conversation.id;
+  }
+}
+
+/**
+ * Reads the tag names embedded in a conversation. A conversation without a
+ * tag list is an error rather than an untagged ticket, since replacing its
+ * tags would otherwise drop every tag that was never read.
+ */
+export function conversationTags(conversation: FreeScoutConversation): string[] {
+  const tags = conversation._embedded?.tags;
+  if (!tags) {
+    throw new Error(
+      `FreeScout returned ticket ${conversation.id} without its tags, so they cannot be read or safely changed. Check that FreeScout's API module embeds tags.`
+    );
+  }
+  return tags.map((tag) => tag.name);
+}
+
+/**
+ * Reads mailboxes from either a bare array or FreeScout's `_embedded` wrapper.
+ */
+export function listMailboxes(
+  response: unknown
+): Array<{ id: number; name?: string; email?: string }> {
+  const mailboxes = Array.isArray(response)
+    ? response
+    : (response as { _embedded?: { mailboxes?: unknown } } | undefined)?._embedded?.mailboxes;
+
+  return Array.isArray(mailboxes)
+    ? mailboxes.filter((mailbox): mailbox is { id: number; name?: string; email?: string } =>
+        Number.isInteger((mailbox as { id?: unknown })?.id)
+      )
+    : [];
 }
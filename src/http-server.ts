@@ -0,0 +1,366 @@
+import {
+  createMcpHandler,
+  hostHeaderValidationResponse,
+  localhostAllowedHostnames,
+  OAuthError,
+  OAuthErrorCode,
+  requireBearerAuth,
+  type AuthInfo,
+  type McpServerFactory,
+  type OAuthTokenVerifier,
+} from '@modelcontextprotocol/server';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+export const MCP_HTTP_PATH = '/mcp';
+export const HEALTH_HTTP_PATH = '/health';
+export const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+const HttpCallerSchema = z.object({
+  name: z.string().min(1),
+  token: z.string().min(16),
+  userId: z.number().int().positive().optional(),
+  apiKey: z.string().min(1).optional(),
+});
+
+const HttpCallersFileSchema = z.object({
+  callers: z.array(HttpCallerSchema).min(1),
+});
+
+/**
+ * A bearer token and the FreeScout identity its requests act as. Callers
+ * without a `userId` or `apiKey` fall back to the server-wide settings.
+ */
+export type HttpCaller = z.infer<typeof HttpCallerSchema>;
+
+export interface HttpConfiguration {
+  host: string;
+  port: number;
+  callers: HttpCaller[];
+  /** Shut down when the launching process exits, as stdio mode always does. */
+  watchParent?: boolean;
+}
+
+/** The per-caller settings attached to a verified request. */
+export interface CallerIdentity {
+  name: string;
+  userId?: number;
+  apiKey?: string;
+}
+
+export interface HttpServerOptions extends HttpConfiguration {
+  factory: McpServerFactory;
+  version?: string;
+  onerror?: (error: Error) => void;
+}
+
+export interface HttpServerHandle {
+  /** The address the server is listening on, e.g. `http://127.0.0.1:3000`. */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Reads the HTTP transport settings from the environment. At least one
+ * bearer token is required so the shared FreeScout API key is never exposed
+ * to anonymous callers.
+ */
+export function parseHttpConfiguration(env: NodeJS.ProcessEnv): HttpConfiguration {
+  const host = env.FREESCOUT_HTTP_HOST?.trim() || DEFAULT_HTTP_HOST;
+  const rawPort = env.FREESCOUT_HTTP_PORT?.trim();
+  const port = rawPort ? Number(rawPort) : DEFAULT_HTTP_PORT;
+  const sharedCallers = (env.FREESCOUT_HTTP_TOKENS ?? '')
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .map((token, index) => {
+      const parsed = HttpCallerSchema.safeParse({ name: `token-${index + 1}`, token });
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid FREESCOUT_HTTP_TOKENS: token ${index + 1}: ${parsed.error.issues
+            .map((issue) => issue.message)
+            .join('; ')}`
+        );
+      }
+      return parsed.data;
+    });
+  const callersFile = env.FREESCOUT_HTTP_CALLERS_FILE?.trim();
+  const callers = [...sharedCallers, ...(callersFile ? loadCallersFile(callersFile) : [])];
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error('FREESCOUT_HTTP_PORT must be an integer between 0 and 65535');
+  }
+
+  if (callers.length === 0) {
+    throw new Error(
+      'FREESCOUT_HTTP_TOKENS or FREESCOUT_HTTP_CALLERS_FILE must provide at least one bearer token in HTTP mode'
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const caller of callers) {
+    if (seen.has(caller.token)) {
+      throw new Error(`Bearer token for caller "${caller.name}" is used more than once`);
+    }
+    seen.add(caller.token);
+  }
+
+  return { host, port, callers, watchParent: env.FREESCOUT_HTTP_WATCH_PARENT === 'true' };
+}
+
+/**
+ * Reads the JSON file mapping bearer tokens to FreeScout users, e.g.
+ * `{ "callers": [{ "name": "alice", "token": "...", "userId": 3 }] }`.
+ */
+export function loadCallersFile(path: string): HttpCaller[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Unable to read FREESCOUT_HTTP_CALLERS_FILE (${path}): ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+
+  const parsed = HttpCallersFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid FREESCOUT_HTTP_CALLERS_FILE (${path}): ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+
+  return parsed.data.callers;
+}
+
+/**
+ * Recovers the caller identity the token verifier attached to a request.
+ */
+export function callerIdentity(authInfo: AuthInfo | undefined): CallerIdentity | undefined {
+  const caller = authInfo?.extra?.caller as CallerIdentity | undefined;
+  return caller && typeof caller.name === 'string' ? caller : undefined;
+}
+
+/** Whether the CLI arguments or environment select the HTTP transport. */
+export function isHttpTransportRequested(argv: string[], env: NodeJS.ProcessEnv): boolean {
+  return argv.includes('--http') || env.FREESCOUT_TRANSPORT?.trim().toLowerCase() === 'http';
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Accepts only the configured caller tokens. Digests are compared in constant
+ * time so response timing does not reveal how much of a token matched.
+ */
+function createCallerTokenVerifier(callers: HttpCaller[]): OAuthTokenVerifier {
+  const known = callers.map((caller) => ({ digest: digest(caller.token), caller }));
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const candidate = digest(token);
+      const match = known.find((entry) => timingSafeEqual(entry.digest, candidate));
+
+      if (!match) {
+        throw new OAuthError(OAuthErrorCode.InvalidToken, 'Unknown bearer token');
+      }
+
+      const identity: CallerIdentity = {
+        name: match.caller.name,
+        userId: match.caller.userId,
+        apiKey: match.caller.apiKey,
+      };
+
+      // Static tokens do not expire, but the SDK requires an expiry.
+      return {
+        token,
+        clientId: match.caller.name,
+        scopes: [],
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+        extra: { caller: identity },
+      };
+    },
+  };
+}
+
+/** Thrown by {@link readBody} for bodies over {@link MAX_HTTP_BODY_BYTES}. */
+class RequestBodyTooLargeError extends Error {
+  constructor() {
+    super('Request body too large');
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  if (Number(req.headers['content-length']) > MAX_HTTP_BODY_BYTES) {
+    throw new RequestBodyTooLargeError();
+  }
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.byteLength;
+    if (size > MAX_HTTP_BODY_BYTES) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(buffer);
+  }
+
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+}
+
+function toWebRequest(req: IncomingMessage, body: Buffer | undefined, origin: string): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((entry) => headers.append(name, entry));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const method = req.method ?? 'GET';
+  return new Request(new URL(req.url ?? '/', origin), {
+    method,
+    headers,
+    body: method === 'GET' || method === 'HEAD' ? undefined : body,
+  });
+}
+
+async function writeWebResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  // Stream the body so SSE responses reach the client as they are produced.
+  const reader = response.body.getReader();
+  res.once('close', () => void reader.cancel().catch(() => undefined));
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+
+  res.end();
+}
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Serves MCP over Streamable HTTP at `/mcp`, with an unauthenticated
+ * `/health` endpoint for load balancers. Every request gets a fresh server
+ * from the factory, so no state is shared between callers.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const handler = createMcpHandler(options.factory, { onerror: options.onerror });
+  const authenticate = requireBearerAuth({ verifier: createCallerTokenVerifier(options.callers) });
+  const checkHost = LOOPBACK_HOSTS.has(options.host);
+
+  // Runs on the headers alone, so nothing is buffered for requests that are
+  // rejected before the MCP handler sees them.
+  const admit = async (request: Request): Promise<Response | AuthInfo> => {
+    const { pathname } = new URL(request.url);
+
+    if (checkHost) {
+      // Guards a loopback-only server against DNS rebinding.
+      const rejected = hostHeaderValidationResponse(request, localhostAllowedHostnames());
+      if (rejected) return rejected;
+    }
+
+    if (pathname === HEALTH_HTTP_PATH && request.method === 'GET') {
+      return jsonResponse(200, { status: 'ok', version: options.version });
+    }
+
+    if (pathname !== MCP_HTTP_PATH) {
+      return jsonResponse(404, { error: 'Not found' });
+    }
+
+    return authenticate(request);
+  };
+
+  const server = createServer((req, res) => {
+    void (async () => {
+      const origin = `http://${req.headers.host ?? `${options.host}:${options.port}`}`;
+
+      try {
+        const auth = await admit(toWebRequest(req, undefined, origin));
+        if (auth instanceof Response) {
+          await writeWebResponse(res, auth);
+          return;
+        }
+
+        let body: Buffer | undefined;
+        try {
+          body = await readBody(req);
+        } catch (error) {
+          // Anything else means the client aborted or the stream broke mid-body
+          await writeWebResponse(
+            res,
+            error instanceof RequestBodyTooLargeError
+              ? jsonResponse(413, { error: 'Request body too large' })
+              : jsonResponse(400, { error: 'Unable to read request body' })
+          );
+          return;
+        }
+
+        await writeWebResponse(
+          res,
+          await handler.fetch(toWebRequest(req, body, origin), { authInfo: auth })
+        );
+      } catch (error) {
+        options.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        if (!res.headersSent) {
+          await writeWebResponse(res, jsonResponse(500, { error: 'Internal server error' }));
+        } else {
+          res.end();
+        }
+      }
+    })();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+  let closing: Promise<void> | undefined;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () => {
+      closing ??= (async () => {
+        const closed = new Promise<void>((resolve, reject) =>
+          server.close((error) => (error ? reject(error) : resolve()))
+        );
+        // Abort in-flight exchanges first so open SSE streams end cleanly.
+        await handler.close();
+        server.closeAllConnections();
+        await closed;
+      })();
+      return closing;
+    },
+  };
+}
@@ -1,15 +1,112 @@
 #!/usr/bin/env node
-import { McpServer } from '@modelcontextprotocol/server';
+import {
+  McpServer,
+  type RegisteredTool,
+  type ServerContext,
+  type StandardSchemaWithJSON,
+  type ToolAnnotations,
+  type ToolCallback,
+} from '@modelcontextprotocol/server';
 import { serveStdio, type ServeStdioOptions } from '@modelcontextprotocol/server/stdio';
 import { realpathSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
 import { createRequire } from 'node:module';
 import { z } from 'zod';
-import { resolveDraftReplyRecipients, shouldInheritDraftRecipients } from './draft-recipients.js';
-import { FreeScoutAPI } from './freescout-api.js';
+import {
+  classifyAttachment,
+  findAttachment,
+  normalizeMimeType,
+  prepareAttachmentUploads,
+} from './attachments.js';
+import { mapWithConcurrency } from './concurrency.js';
+import {
+  requestClientCapabilities,
+  requestConfirmation,
+  type ProtocolEra,
+} from './confirmation.js';
+import { validateCustomFieldValues } from './custom-fields.js';
+import { shouldInheritDraftRecipients } from './draft-recipients.js';
+import {
+  FreeScoutAPIError,
+  FreeScoutAuthError,
+  FreeScoutNetworkError,
+  FreeScoutNotFoundError,
+  FreeScoutRateLimitError,
+  FreeScoutResponseValidationError,
+  FreeScoutServerError,
+  FreeScoutTimeoutError,
+  FreeScoutValidationError,
+} from './errors.js';
+import {
+  conversationTags,
+  FreeScoutAPI,
+  listMailboxes,
+  type ConversationPage,
+} from './freescout-api.js';
+import {
+  callerIdentity,
+  isHttpTransportRequested,
+  parseHttpConfiguration,
+  startHttpServer,
+  type HttpConfiguration,
+} from './http-server.js';
+import {
+  AddNoteOutputSchema,
+  AnalyzeTicketOutputSchema,
+  BulkUpdateOutputSchema,
+  CreateDraftReplyOutputSchema,
+  CreateTicketOutputSchema,
+  DraftWriteOutputSchema,
+  GetAttachmentOutputSchema,
+  GetCustomFieldsOutputSchema,
+  GetCustomerHistoryOutputSchema,
+  GetCustomerOutputSchema,
+  GetMailboxesOutputSchema,
+  GetTicketContextOutputSchema,
+  GetTicketOutputSchema,
+  GetTicketTagsOutputSchema,
+  ListDraftsOutputSchema,
+  ListTagsOutputSchema,
+  ListUsersOutputSchema,
+  MergeTicketsOutputSchema,
+  SearchCustomersOutputSchema,
+  SearchTicketsOutputSchema,
+  SendReplyOutputSchema,
+  SetCustomFieldsOutputSchema,
+  TicketChangesOutputSchema,
+  TicketWriteOutputSchema,
+  UpdateCustomerOutputSchema,
+  UpdateTicketTagsOutputSchema,
+} from './output-schemas.js';
+import { registerPrompts } from './prompts.js';
+import { registerResources } from './resources.js';
+import { RequestScheduler, type RequestSchedulerOptions } from './request-scheduler.js';
+import { ResponseCache, type ResponseCacheOptions } from './response-cache.js';
+import {
+  parseResponseValidationMode,
+  ResponseValidator,
+  type ResponseValidationMode,
+} from './response-validation.js';
+import { decodeSearchCursor, encodeSearchCursor, type SearchPosition } from './search-cursor.js';
+import { clientSideSearchFilters, resolveSearchDates } from './search-filters.js';
+import { loadToolPolicyRules, ToolPolicy, type ToolPolicyRules } from './policy.js';
 import { installStdioLifecycle, type StdioLifecycle } from './stdio-lifecycle.js';
 import { TicketAnalyzer } from './ticket-analyzer.js';
-import { SearchFiltersSchema, type FreeScoutRecipients } from './types.js';
+import { buildTicketContext, findLastMessage, normalizeThreadBody } from './ticket-context.js';
+import { TicketNumberIndex } from './ticket-numbers.js';
+import { UserDirectory } from './user-directory.js';
+import {
+  AttachmentUploadSchema,
+  CustomerSearchFiltersSchema,
+  CustomerUpdateSchema,
+  SearchFiltersSchema,
+  type AttachmentUpload,
+  type FreeScoutConversation,
+  type FreeScoutRecipients,
+  type FreeScoutThread,
+  type ResolvedTicket,
+  type SearchFilters,
+} from './types.js';
 import { loadEnv } from './env.js';
 
 type PackageJson = { version: string };
@@ -19,27 +116,221 @@ const packageJson = require('../package.json') as PackageJson;
 type FreeScoutApiPort = Pick<
   FreeScoutAPI,
   | 'addThread'
+  | 'createConversation'
   | 'createDraftReply'
+  | 'deleteThread'
+  | 'downloadAttachment'
+  | 'getAllUsers'
   | 'getConversation'
+  | 'getConversationTags'
+  | 'getCustomer'
+  | 'getCustomFields'
+  | 'getDrafts'
   | 'getMailboxes'
-  | 'parseTicketInput'
+  | 'getTags'
+  | 'iterateConversations'
+  | 'mergeConversations'
+  | 'publishDraft'
+  | 'resolveTicket'
   | 'searchConversations'
+  | 'searchCustomers'
+  | 'setConversationTags'
+  | 'setCustomFields'
   | 'updateConversation'
+  | 'updateConversationTags'
+  | 'updateCustomer'
+  | 'updateThread'
 >;
 
 type TicketAnalyzerPort = Pick<TicketAnalyzer, 'analyzeConversation' | 'stripHtml'>;
 
+export interface SendReplyOptions {
+  enabled: boolean;
+  /** Mailboxes replies may be sent from. Omit to allow every mailbox. */
+  mailboxIds?: number[];
+}
+
 export interface BuildServerOptions {
   api?: FreeScoutApiPort;
+  /** Overrides FREESCOUT_API_KEY, e.g. with an HTTP caller's own key. */
+  apiKey?: string;
   analyzer?: TicketAnalyzerPort;
   defaultUserId?: number;
+  /**
+   * The authenticated HTTP caller's FreeScout user. Tools act as this user,
+   * and a `userId` argument naming anyone else is rejected.
+   */
+  callerUserId?: number;
+  /**
+   * Set for legacy-era HTTP requests. Each one gets a server that never saw
+   * `initialize`, so it cannot ask the client to confirm a send, and the
+   * send tools are left out.
+   */
+  stateless?: boolean;
+  attachmentDirectory?: string;
+  sendReply?: SendReplyOptions;
+  policy?: ToolPolicyRules;
+  era?: ProtocolEra;
   version?: string;
 }
 
+/** The `registerTool` config for a tool with a schema-typed input and output. */
+interface ToolConfig<OutputArgs, InputArgs> {
+  title?: string;
+  description?: string;
+  inputSchema?: InputArgs;
+  outputSchema?: OutputArgs;
+  annotations?: ToolAnnotations;
+}
+
 interface RuntimeConfiguration {
   url: string;
   apiKey: string;
   defaultUserId: number;
+  attachmentDirectory?: string;
+  sendReply: SendReplyOptions;
+  policy: ToolPolicyRules;
+  /** Unset when caching is disabled. */
+  cache?: ResponseCacheOptions;
+  scheduler: RequestSchedulerOptions;
+  responseValidation: ResponseValidationMode;
+  shared: SharedClientState;
+}
+
+function parseMailboxIds(value: string | undefined): number[] | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+
+  return value.split(',').map((entry) => {
+    const id = Number.parseInt(entry.trim(), 10);
+    if (!Number.isSafeInteger(id) || id < 1 || String(id) !== entry.trim()) {
+      throw new Error(
+        'FREESCOUT_SEND_REPLY_MAILBOXES must be a comma-separated list of mailbox IDs'
+      );
+    }
+    return id;
+  });
+}
+
+function parseCacheOptions(env: NodeJS.ProcessEnv): ResponseCacheOptions | undefined {
+  const ttl = env.FREESCOUT_CACHE_TTL_SECONDS?.trim();
+  const maxEntries = env.FREESCOUT_CACHE_MAX_ENTRIES?.trim();
+
+  // Off unless a TTL is set, so reads that decide a write never see stale data by default
+  if (!ttl) {
+    return undefined;
+  }
+
+  const seconds = Number(ttl);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error('FREESCOUT_CACHE_TTL_SECONDS must be a non-negative number');
+  }
+  const options: ResponseCacheOptions = { ttlMs: seconds * 1000 };
+
+  if (maxEntries) {
+    const entries = Number(maxEntries);
+    if (!Number.isSafeInteger(entries) || entries < 0) {
+      throw new Error('FREESCOUT_CACHE_MAX_ENTRIES must be a non-negative integer');
+    }
+    options.maxEntries = entries;
+  }
+
+  return options.ttlMs === 0 || options.maxEntries === 0 ? undefined : options;
+}
+
+function parseSchedulerOptions(env: NodeJS.ProcessEnv): RequestSchedulerOptions {
+  const maxConcurrency = env.FREESCOUT_MAX_CONCURRENCY?.trim();
+  const rateLimit = env.FREESCOUT_RATE_LIMIT?.trim();
+  const options: RequestSchedulerOptions = {};
+
+  if (maxConcurrency) {
+    const limit = Number(maxConcurrency);
+    if (!Number.isSafeInteger(limit) || limit < 1) {
+      throw new Error('FREESCOUT_MAX_CONCURRENCY must be a positive integer');
+    }
+    options.maxConcurrency = limit;
+  }
+
+  if (rateLimit) {
+    const perSecond = Number(rateLimit);
+    if (!Number.isFinite(perSecond) || perSecond < 0) {
+      throw new Error('FREESCOUT_RATE_LIMIT must be a non-negative number of requests per second');
+    }
+    options.requestsPerSecond = perSecond;
+  }
+
+  if (env.FREESCOUT_DEBUG === 'true') {
+    options.log = (message) => console.error(`[FreeScout API] ${message}`);
+  }
+
+  return options;
+}
+
+// Every connection and HTTP request builds a fresh server, so client state is
+// shared through the runtime they are built from and lives as long as it does.
+// Responses are cached per API key, so callers with their own key never see
+// data cached for another key. One scheduler covers every caller, because they
+// all share the FreeScout instance. Ticket numbers map to the same IDs for every
+// caller, so that index is shared too. The user directory is kept per API key
+// like the cache, so it is loaded once per key instead of once per request.
+interface SharedClientState {
+  responseCaches: Map<string, ResponseCache>;
+  userDirectories: Map<string, UserDirectory>;
+  ticketNumbers: TicketNumberIndex;
+  scheduler: RequestScheduler;
+  // Shared so each drifted field is reported once per runtime, not per request
+  validator: ResponseValidator;
+}
+
+function createSharedClientState(
+  configuration: Omit<RuntimeConfiguration, 'shared'>
+): SharedClientState {
+  return {
+    responseCaches: new Map(),
+    userDirectories: new Map(),
+    ticketNumbers: new TicketNumberIndex(),
+    scheduler: new RequestScheduler(configuration.scheduler),
+    validator: new ResponseValidator(configuration.responseValidation),
+  };
+}
+
+function sharedResponseCache(
+  runtime: RuntimeConfiguration,
+  apiKey: string
+): ResponseCache | undefined {
+  if (!runtime.cache) {
+    return undefined;
+  }
+
+  let cache = runtime.shared.responseCaches.get(apiKey);
+  if (!cache) {
+    cache = new ResponseCache(runtime.cache);
+    runtime.shared.responseCaches.set(apiKey, cache);
+  }
+  return cache;
+}
+
+function sharedUserDirectory(
+  runtime: RuntimeConfiguration,
+  apiKey: string,
+  api: FreeScoutApiPort
+): UserDirectory {
+  let users = runtime.shared.userDirectories.get(apiKey);
+  if (!users) {
+    users = new UserDirectory(() => api.getAllUsers());
+    runtime.shared.userDirectories.set(apiKey, users);
+  }
+  return users;
+}
+
+function createApiClient(runtime: RuntimeConfiguration, apiKey = runtime.apiKey): FreeScoutAPI {
+  return new FreeScoutAPI(runtime.url, apiKey, undefined, {
+    cache: sharedResponseCache(runtime, apiKey),
+    scheduler: runtime.shared.scheduler,
+    validator: runtime.shared.validator,
+    ticketNumbers: runtime.shared.ticketNumbers,
+  });
 }
 
 function loadRuntimeConfiguration(): RuntimeConfiguration {
@@ -57,73 +348,411 @@ function loadRuntimeConfiguration(): RuntimeConfiguration {
     throw new Error('FREESCOUT_DEFAULT_USER_ID must be a positive integer');
   }
 
-  return { url, apiKey, defaultUserId };
+  const configuration = {
+    url,
+    apiKey,
+    defaultUserId,
+    attachmentDirectory: process.env.FREESCOUT_ATTACHMENT_DIR || undefined,
+    sendReply: {
+      enabled: process.env.FREESCOUT_ENABLE_SEND_REPLY === 'true',
+      mailboxIds: parseMailboxIds(process.env.FREESCOUT_SEND_REPLY_MAILBOXES),
+    },
+    policy: loadToolPolicyRules(process.env, TOOL_NAMES),
+    cache: parseCacheOptions(process.env),
+    scheduler: parseSchedulerOptions(process.env),
+    responseValidation: parseResponseValidationMode(process.env.FREESCOUT_RESPONSE_VALIDATION),
+  };
+  return { ...configuration, shared: createSharedClientState(configuration) };
+}
+
+interface FieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+/** Names a ticket by the number people see, followed by the ID FreeScout's API uses. */
+const formatTicket = (ticket: ResolvedTicket) => `#${ticket.number} (ID ${ticket.id})`;
+
+const formatChanges = (changes: FieldChange[]) =>
+  changes.map(
+    (change) => `- ${change.field}: ${change.from ?? '(none)'} → ${change.to ?? '(none)'}`
+  );
+
+/**
+ * Explains a failed FreeScout request in terms the model can act on: what
+ * was not found or rejected, and which tool or change would fix it.
+ */
+function describeApiError(error: FreeScoutAPIError): string {
+  const request = `${error.method} ${error.endpoint}`;
+  const detail = error.detail ? ` FreeScout said: ${error.detail}` : '';
+
+  if (error instanceof FreeScoutNotFoundError) {
+    const numbered = error.endpoint.match(/^\/conversations\?number=(\d+)/);
+    if (numbered) {
+      return `No ticket with number #${numbered[1]} was found. Check the number in the FreeScout web interface, or pass the ticket ID (id:123) or its URL instead.`;
+    }
+
+    const thread = error.endpoint.match(/^\/conversations\/(\d+)\/threads\/(\d+)/);
+    if (thread) {
+      return `Thread ${thread[2]} was not found on ticket ${thread[1]}. Use freescout_get_ticket or freescout_list_drafts to see the ticket's thread IDs.`;
+    }
+
+    const [, resource, id] =
+      error.endpoint.match(/^\/(conversations|customers|mailboxes)\/(\d+)(?:\?|$)/) ?? [];
+    if (resource === 'conversations') {
+      return `Ticket ${id} was not found. Bare numbers are read as ticket IDs, which differ from the ticket numbers shown in the web interface: if ${id} is a ticket number, pass it as #${id} or number:${id}, or pass the full ticket URL.`;
+    }
+    if (resource === 'customers') {
+      return `Customer ${id} was not found. Use freescout_search_customers to look up the customer ID by email or name.`;
+    }
+    if (resource === 'mailboxes') {
+      return `Mailbox ${id} was not found. Use freescout_get_mailboxes to list the available mailbox IDs.`;
+    }
+
+    // Tags, custom fields and merging come from optional FreeScout modules, so a
+    // 404 under an existing record usually means the module is missing.
+    const subresource = error.endpoint.match(/^\/(?:conversations|mailboxes)\/\d+\/([a-z_]+)/);
+    if (subresource) {
+      return `FreeScout answered ${request} with 404: the endpoint is not available. Is the module that provides ${subresource[1]} installed and enabled? Retrying with a different ticket or ID form will not help.${detail}`;
+    }
+    return `FreeScout could not find the record for ${request}.${detail}`;
+  }
+
+  if (error instanceof FreeScoutAuthError) {
+    return error.status === 403
+      ? `FreeScout refused ${request} (403): the API key's user is not allowed to do this, for example in this mailbox. Retrying will not help; ask an administrator to grant access or use another ticket.${detail}`
+      : `FreeScout rejected the API key (401) for ${request}. Check FREESCOUT_API_KEY and that the API & Webhooks module is enabled. Retrying will not help.${detail}`;
+  }
+
+  if (error instanceof FreeScoutValidationError) {
+    const fields = error.fieldErrors;
+    return `FreeScout rejected ${request} as invalid (${error.status}).${fields.length > 0 ? ` Problems: ${fields.join('; ')}.` : detail} Correct the arguments before trying again; repeating the same call will fail the same way.`;
+  }
+
+  if (error instanceof FreeScoutRateLimitError) {
+    const wait = error.retryAfterMs
+      ? `${Math.ceil(error.retryAfterMs / 1000)} seconds`
+      : 'a minute';
+    return `FreeScout is rate limiting requests (429) and retries for ${request} ran out. Wait ${wait} before trying again, and avoid includeLastMessage searches or large bulk updates until then.`;
+  }
+
+  if (error instanceof FreeScoutTimeoutError) {
+    return `FreeScout did not answer ${request} within ${error.timeoutMs}ms.${error.method === 'GET' ? ' Try again, or narrow the request, e.g. with a smaller pageSize.' : ' The change may still have been applied: check the ticket before retrying so it is not applied twice.'}`;
+  }
+
+  if (error instanceof FreeScoutServerError) {
+    const unconfirmed =
+      error.retryable || (error.status !== 502 && error.status !== 504)
+        ? ''
+        : ' A proxy may have passed the request on to FreeScout, so check whether the change was applied before retrying.';
+    return `FreeScout returned a server error (${error.status}) for ${request}.${detail} This is a problem on the FreeScout side; try again later.${unconfirmed}`;
+  }
+
+  if (error instanceof FreeScoutResponseValidationError) {
+    const fields = error.drift.map((entry) => `${entry.path}: ${entry.message}`);
+    return `FreeScout answered ${request}, but the response does not match the expected shape (${fields.join('; ')}). The FreeScout version or API module may have changed. Retrying will not help; set FREESCOUT_RESPONSE_VALIDATION=warn to use responses as FreeScout sends them.`;
+  }
+
+  if (error instanceof FreeScoutNetworkError) {
+    const unconfirmed = error.retryable
+      ? ''
+      : ' The request may have reached FreeScout, so check whether the change was applied before retrying.';
+    return `Could not reach FreeScout for ${request}: ${error.message}. Check FREESCOUT_URL and the network connection.${unconfirmed}`;
+  }
+
+  return `${error.message} (${request})`;
 }
 
-const allowedThreadTypes = new Set(['customer', 'message', 'note']);
-type ThreadType = 'customer' | 'message' | 'note';
+const ATTACHMENT_DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const ATTACHMENT_MAX_BYTES = 20 * 1024 * 1024;
+const ATTACHMENT_UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+
+const userIdentifier = z.union([z.number().int().positive(), z.string().min(1)]);
+// Bare numbers stay conversation IDs, as they always were
+const ticketReference = z
+  .string()
+  .describe('Ticket ID (123 or id:123), ticket number (#4521 or number:4521), or FreeScout URL');
+
+const attachmentUploadsInput = z
+  .array(AttachmentUploadSchema)
+  .max(10)
+  .optional()
+  .describe(
+    'Optional files to attach. Each item needs either path (relative to FREESCOUT_ATTACHMENT_DIR) or base64 data with fileName. Max 10 MB each.'
+  );
+
+/** Every tool this server can register, whether or not the policy leaves it enabled. */
+const TOOL_NAMES = [
+  'freescout_get_ticket',
+  'freescout_analyze_ticket',
+  'freescout_add_note',
+  'freescout_update_ticket',
+  'freescout_create_draft_reply',
+  'freescout_get_ticket_context',
+  'freescout_search_tickets',
+  'freescout_get_mailboxes',
+  'freescout_get_customer',
+  'freescout_search_customers',
+  'freescout_update_customer',
+  'freescout_get_customer_history',
+  'freescout_create_ticket',
+  'freescout_list_tags',
+  'freescout_get_ticket_tags',
+  'freescout_update_ticket_tags',
+  'freescout_get_custom_fields',
+  'freescout_set_custom_fields',
+  'freescout_get_attachment',
+  'freescout_list_users',
+  'freescout_send_reply',
+  'freescout_list_drafts',
+  'freescout_update_draft',
+  'freescout_delete_draft',
+  'freescout_send_draft',
+  'freescout_merge_tickets',
+  'freescout_move_ticket',
+  'freescout_update_ticket_details',
+  'freescout_bulk_update',
+] as const;
 
-const isValidThreadType = (type: unknown): type is ThreadType =>
-  typeof type === 'string' && allowedThreadTypes.has(type as ThreadType);
+type ToolName = (typeof TOOL_NAMES)[number];
 
-const hasCreatedAt = (createdAt: unknown): createdAt is string =>
-  typeof createdAt === 'string' && createdAt.length > 0;
+const SEARCH_MAX_RESULTS = 500;
+// Client-side filters can leave page after page empty, so one call stops here
+const SEARCH_MAX_PAGES = 20;
 
-const normalizeThreadBody = (body: unknown) => (typeof body === 'string' ? body : '');
+const CUSTOMER_HISTORY_DEFAULT_RESULTS = 20;
+const CUSTOMER_HISTORY_MAX_RESULTS = 100;
+const CUSTOMER_HISTORY_PAGE_SIZE = 50;
+
+const BULK_UPDATE_MAX_TICKETS = 200;
+const BULK_UPDATE_DEFAULT_QUERY_LIMIT = 50;
+const BULK_UPDATE_PAGE_SIZE = 50;
+const BULK_UPDATE_CONCURRENCY = 5;
 
 /**
- * Builds a fresh server for each stdio connection. `serveStdio` uses this
- * factory for both the legacy 2025 handshake and the 2026 protocol era.
+ * Builds a server from the current environment. Servers built by separate
+ * calls share no client state; `startStdioServer` and `startHttpMcpServer`
+ * load the environment once so their connections share a scheduler and caches.
  */
 export function buildServer(options: BuildServerOptions = {}): McpServer {
-  const runtime = options.api ? undefined : loadRuntimeConfiguration();
-  const api = options.api ?? new FreeScoutAPI(runtime!.url, runtime!.apiKey);
+  return buildRuntimeServer(options, options.api ? undefined : loadRuntimeConfiguration());
+}
+
+/**
+ * Builds a fresh server for each connection. `serveStdio` and the HTTP
+ * handler use this factory for both the legacy 2025 handshake and the 2026
+ * protocol era.
+ */
+function buildRuntimeServer(
+  options: BuildServerOptions,
+  runtime: RuntimeConfiguration | undefined
+): McpServer {
+  const api = options.api ?? createApiClient(runtime!, options.apiKey);
   const analyzer = options.analyzer ?? new TicketAnalyzer();
-  const defaultUserId = options.defaultUserId ?? runtime?.defaultUserId ?? 1;
+  const defaultUserId =
+    options.callerUserId ?? options.defaultUserId ?? runtime?.defaultUserId ?? 1;
+  const attachmentDirectory = options.attachmentDirectory ?? runtime?.attachmentDirectory;
+  const configuredSendReply = options.sendReply ?? runtime?.sendReply ?? { enabled: false };
+  const sendReply = options.stateless
+    ? { ...configuredSendReply, enabled: false }
+    : configuredSendReply;
+  const policy = new ToolPolicy(options.policy ?? runtime?.policy);
+  const prepareUploads = (attachments: AttachmentUpload[] | undefined) =>
+    prepareAttachmentUploads(attachments ?? [], {
+      allowedDirectory: attachmentDirectory,
+      maxBytes: ATTACHMENT_UPLOAD_MAX_BYTES,
+    });
+  const users = runtime
+    ? sharedUserDirectory(runtime, options.apiKey ?? runtime.apiKey, api)
+    : new UserDirectory(() => api.getAllUsers());
+  const resolveUser = async (input: number | string | undefined) =>
+    input === undefined ? undefined : users.resolve(input);
+  const resolveActingUser = async (input: number | string | undefined): Promise<number> => {
+    const userId = await resolveUser(input);
+    if (
+      options.callerUserId !== undefined &&
+      userId !== undefined &&
+      userId !== options.callerUserId
+    ) {
+      throw new Error(
+        `This caller acts as FreeScout user ${options.callerUserId} and cannot act as user ${userId}`
+      );
+    }
+    return userId ?? defaultUserId;
+  };
+  const resolveSearchAssignee = async (filters: SearchFilters): Promise<SearchFilters> =>
+    filters.assignee === undefined ||
+    filters.assignee === 'unassigned' ||
+    filters.assignee === 'any' ||
+    typeof filters.assignee === 'number'
+      ? filters
+      : { ...filters, assignee: await users.resolve(filters.assignee) };
+  const attachmentIds = (thread: FreeScoutThread) =>
+    (thread.attachments || []).map((attachment) => attachment.id);
   const server = new McpServer({
     name: 'mcp-freescout',
     version: options.version ?? packageJson.version,
   });
+  // Tools the policy rules out are never registered, so clients cannot see them.
+  // FreeScout API failures become tool errors that tell the model what to do next.
+  const registeredTools = new Set<string>();
+  const registerTool = <
+    OutputArgs extends StandardSchemaWithJSON,
+    InputArgs extends StandardSchemaWithJSON | undefined = undefined,
+  >(
+    name: ToolName,
+    config: ToolConfig<OutputArgs, InputArgs>,
+    handler: ToolCallback<InputArgs>
+  ): RegisteredTool | undefined => {
+    if (!policy.allowsTool(name, config.annotations)) {
+      return undefined;
+    }
+
+    const guarded = (async (...handlerArgs: unknown[]) => {
+      try {
+        return await (handler as (...params: unknown[]) => unknown)(...handlerArgs);
+      } catch (error) {
+        if (error instanceof FreeScoutAPIError) {
+          return {
+            content: [{ type: 'text', text: `❌ ${describeApiError(error)}` }],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }) as ToolCallback<InputArgs>;
+
+    registeredTools.add(name);
+    return server.registerTool(name, config, guarded);
+  };
+  // Reuses the ticket resolving it loaded, which always includes threads
+  const loadConversation = async (ticket: ResolvedTicket, includeThreads = true) =>
+    ticket.conversation ?? api.getConversation(ticket.id, includeThreads);
+  const assertTicketAllowed = async (
+    ticket: ResolvedTicket,
+    conversation?: FreeScoutConversation
+  ) => {
+    if (!policy.restrictsMailboxes) {
+      return;
+    }
+
+    const { mailbox_id } = conversation ?? (await loadConversation(ticket, false));
+    policy.assertMailbox(mailbox_id, `changes to ticket ${formatTicket(ticket)}`);
+  };
+  const assertSendMailbox = (mailboxId: number | undefined, target: string) => {
+    if (!sendReply.mailboxIds) {
+      return;
+    }
+
+    if (mailboxId === undefined || !sendReply.mailboxIds.includes(mailboxId)) {
+      throw new Error(
+        `Sending replies is not allowed for ${target} (mailbox ${mailboxId ?? 'unknown'}). Allowed mailboxes: ${sendReply.mailboxIds.join(', ')}`
+      );
+    }
+  };
+  const assertSendAllowed = (ticket: ResolvedTicket, conversation: FreeScoutConversation) =>
+    assertSendMailbox(conversation.mailbox_id, `ticket ${formatTicket(ticket)}`);
+  /** Asks the user to confirm an email before it goes to the customer. */
+  const confirmEmail = async (ctx: ServerContext, email: string, message: string) => {
+    // Without capabilities there is no telling whether the client could have confirmed.
+    // Legacy servers serve one initialized connection, so its capabilities are the caller's.
+    const capabilities =
+      requestClientCapabilities(ctx) ??
+      (options.era === 'modern' ? undefined : server.server.getClientCapabilities());
+    if (capabilities === undefined) {
+      throw new Error(
+        `${email} was not sent: the client's capabilities are unknown, so it cannot be asked to confirm`
+      );
+    }
+
+    return requestConfirmation(ctx, {
+      era: options.era ?? 'legacy',
+      elicitationSupported: capabilities.elicitation !== undefined,
+      message,
+    });
+  };
+  const confirmSend = (
+    ctx: ServerContext,
+    ticket: ResolvedTicket,
+    conversation: FreeScoutConversation,
+    replyText: string
+  ) =>
+    confirmEmail(
+      ctx,
+      `Reply to ticket ${formatTicket(ticket)}`,
+      `Send this reply to the customer on ticket ${formatTicket(ticket)} ("${conversation.subject}")?\n\n${replyText}`
+    );
+  const findDraft = async (ticket: ResolvedTicket, draftId: number) => {
+    const draft = (await api.getDrafts(ticket.id)).find((thread) => thread.id === draftId);
+    if (!draft) {
+      throw new Error(`Draft ${draftId} not found on ticket ${formatTicket(ticket)}`);
+    }
+    return draft;
+  };
+  const replyNotSent = (ticket: ResolvedTicket) => {
+    const output = {
+      success: false,
+      message: `Reply to ticket ${formatTicket(ticket)} was not sent because it was not confirmed`,
+      ticketId: ticket.id,
+      ticketNumber: ticket.number,
+    };
+
+    return {
+      content: [{ type: 'text' as const, text: `❌ ${output.message}` }],
+      structuredContent: output,
+    };
+  };
 
   // Tool 1: Get Ticket
-  server.registerTool(
+  registerTool(
     'freescout_get_ticket',
     {
       title: 'Get FreeScout Ticket',
       description: 'Fetch and analyze a FreeScout ticket by ID or URL',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
         includeThreads: z
           .boolean()
           .optional()
           .default(true)
           .describe('Include all conversation threads'),
       }),
+      outputSchema: GetTicketOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async ({ ticket, includeThreads }) => {
-      const ticketId = api.parseTicketInput(ticket);
-      const conversation = await api.getConversation(ticketId, includeThreads ?? true);
+      const resolved = await api.resolveTicket(ticket);
+      let conversation = await loadConversation(resolved, includeThreads);
+      // The ticket resolving loaded embeds threads, so drop them rather than fetch it again
+      if (includeThreads === false && conversation._embedded?.threads) {
+        const { threads: _threads, ...embedded } = conversation._embedded;
+        conversation = { ...conversation, _embedded: embedded };
+      }
 
       return {
         content: [{ type: 'text', text: JSON.stringify(conversation, null, 2) }],
+        structuredContent: conversation,
       };
     }
   );
 
   // Tool 2: Analyze Ticket
-  server.registerTool(
+  registerTool(
     'freescout_analyze_ticket',
     {
       title: 'Analyze FreeScout Ticket',
       description:
         'Analyze a FreeScout ticket to determine issue type, root cause, and suggested solution',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
       }),
+      outputSchema: AnalyzeTicketOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async ({ ticket }) => {
-      const ticketId = api.parseTicketInput(ticket);
-      const conversation = await api.getConversation(ticketId, true);
+      const resolved = await api.resolveTicket(ticket);
+      const conversation = await loadConversation(resolved);
       const analysis = analyzer.analyzeConversation(conversation);
 
       return {
@@ -134,27 +763,50 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
   );
 
   // Tool 3: Add Note
-  server.registerTool(
+  registerTool(
     'freescout_add_note',
     {
       title: 'Add Note to Ticket',
       description: 'Add an internal note to a FreeScout ticket',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
         note: z.string().describe('The note content to add'),
-        userId: z.number().optional().describe('User ID for the note (default: from env)'),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name for the note (default: from env)'),
+        attachments: attachmentUploadsInput,
       }),
+      outputSchema: AddNoteOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
-    async ({ ticket, note, userId }) => {
-      const ticketId = api.parseTicketInput(ticket);
-      const actualUserId = userId ?? defaultUserId;
+    async ({ ticket, note, userId, attachments }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      await assertTicketAllowed(resolved);
+      const actualUserId = await resolveActingUser(userId);
+      const uploads = await prepareUploads(attachments);
 
-      await api.addThread(ticketId, 'note', note, actualUserId);
+      const thread = await api.addThread(
+        ticketId,
+        'note',
+        note,
+        actualUserId,
+        undefined,
+        undefined,
+        uploads
+      );
 
       const output = {
         success: true,
-        message: `Note added to ticket #${ticketId}`,
+        message: `Note added to ticket ${formatTicket(resolved)}`,
         ticketId,
+        ticketNumber: resolved.number,
+        attachmentIds: attachmentIds(thread),
       };
 
       return {
@@ -165,38 +817,54 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
   );
 
   // Tool 4: Update Ticket
-  server.registerTool(
+  registerTool(
     'freescout_update_ticket',
     {
       title: 'Update Ticket Status/Assignment',
       description: 'Update ticket status and/or assignment',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
         status: z
           .enum(['active', 'pending', 'closed', 'spam'])
           .optional()
           .describe('New ticket status'),
-        assignTo: z.number().optional().describe('User ID to assign the ticket to'),
-        userId: z.number().optional().describe('User ID recording this update (default: from env)'),
+        assignTo: userIdentifier
+          .optional()
+          .describe('User ID, email, or name to assign the ticket to'),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name recording this update (default: from env)'),
       }),
+      outputSchema: TicketWriteOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async ({ ticket, status, assignTo, userId }) => {
-      const ticketId = api.parseTicketInput(ticket);
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      policy.assertStatus(status);
+      await assertTicketAllowed(resolved);
+      const assigneeId = await resolveUser(assignTo);
 
       const updates: {
         status?: 'active' | 'pending' | 'closed' | 'spam';
         assignTo?: number;
         byUser?: number;
-      } = { byUser: userId ?? defaultUserId };
+      } = { byUser: await resolveActingUser(userId) };
       if (status) updates.status = status;
-      if (assignTo) updates.assignTo = assignTo;
+      if (assigneeId !== undefined) updates.assignTo = assigneeId;
 
       await api.updateConversation(ticketId, updates);
 
       const output = {
         success: true,
-        message: `Ticket #${ticketId} updated successfully`,
+        message: `Ticket ${formatTicket(resolved)} updated successfully`,
         ticketId,
+        ticketNumber: resolved.number,
       };
 
       return {
@@ -207,18 +875,17 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
   );
 
   // Tool 5: Create Draft Reply
-  server.registerTool(
+  registerTool(
     'freescout_create_draft_reply',
     {
       title: 'Create Draft Reply',
       description: 'Create a draft reply in FreeScout that can be edited before sending',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
         replyText: z.string().describe('The draft reply content (generated by the LLM)'),
-        userId: z
-          .number()
+        userId: userIdentifier
           .optional()
-          .describe('User ID creating the draft (defaults to env setting)'),
+          .describe('User ID, email, or name creating the draft (defaults to env setting)'),
         to: z
           .array(z.string().email())
           .optional()
@@ -237,18 +904,35 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
           .describe(
             'Optional BCC recipients. Omit to preserve existing recipients; pass [] to clear.'
           ),
+        attachments: attachmentUploadsInput,
+        replaceExisting: z
+          .boolean()
+          .optional()
+          .describe(
+            "Update this user's existing draft on the ticket instead of adding another one (default: false)"
+          ),
       }),
+      outputSchema: CreateDraftReplyOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
-    async ({ ticket, replyText, userId, to, cc, bcc }) => {
-      const ticketId = api.parseTicketInput(ticket);
-      const actualUserId = userId ?? defaultUserId;
+    async ({ ticket, replyText, userId, to, cc, bcc, attachments, replaceExisting }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      await assertTicketAllowed(resolved);
+      const actualUserId = await resolveActingUser(userId);
+      const uploads = await prepareUploads(attachments);
       const requestedRecipients: FreeScoutRecipients = { to, cc, bcc };
       let recipientWarning: string | null = null;
 
       let inheritedRecipients: FreeScoutRecipients = {};
       if (shouldInheritDraftRecipients(requestedRecipients)) {
         try {
-          const conversation = await api.getConversation(ticketId, false);
+          const conversation = await loadConversation(resolved, false);
           inheritedRecipients = {
             to: conversation.to,
             cc: conversation.cc,
@@ -260,23 +944,25 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
         }
       }
 
-      const resolvedRecipients = resolveDraftReplyRecipients(
-        requestedRecipients,
-        inheritedRecipients
-      );
-
+      // Inherited recipients only fill a new draft; a replaced draft keeps its own
       const draftThread = await api.createDraftReply(
         ticketId,
         replyText,
         actualUserId,
-        resolvedRecipients
+        requestedRecipients,
+        uploads,
+        { replaceExisting, fallbackRecipients: inheritedRecipients }
       );
 
       const output = {
         success: true,
-        message: `Draft reply created successfully in FreeScout ticket #${ticketId}`,
+        message: replaceExisting
+          ? `Draft reply saved in FreeScout ticket ${formatTicket(resolved)}`
+          : `Draft reply created successfully in FreeScout ticket ${formatTicket(resolved)}`,
         ticketId,
+        ticketNumber: resolved.number,
         draftId: draftThread.id,
+        attachmentIds: attachmentIds(draftThread),
       };
 
       return {
@@ -292,102 +978,142 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
   );
 
   // Tool 6: Get Ticket Context
-  server.registerTool(
+  registerTool(
     'freescout_get_ticket_context',
     {
       title: 'Get Ticket Context',
       description: 'Get ticket context and customer info to help draft personalized replies',
       inputSchema: z.object({
-        ticket: z.string().describe('Ticket ID, ticket number, or FreeScout URL'),
+        ticket: ticketReference,
       }),
+      outputSchema: GetTicketContextOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async ({ ticket }) => {
-      const ticketId = api.parseTicketInput(ticket);
-      const conversation = await api.getConversation(ticketId, true);
-      const analysis = analyzer.analyzeConversation(conversation);
-
-      const threads = conversation._embedded?.threads || [];
-      const safeThreads = threads.filter(
-        (t) => isValidThreadType(t.type) && hasCreatedAt(t.created_at)
-      );
-      const customerMessages = safeThreads.filter((t) => t.type === 'customer');
-      const teamMessages = safeThreads.filter((t) => t.type === 'message' || t.type === 'note');
-
-      const context = {
-        ticketId,
-        customer: {
-          name: analysis.customerName,
-          email: analysis.customerEmail,
-        },
-        subject: conversation.subject,
-        status: conversation.status,
-        issueDescription: analysis.issueDescription,
-        customerMessages: customerMessages.map((m) => ({
-          date: m.created_at,
-          content: (() => {
-            const body = normalizeThreadBody(m.body);
-            const stripped = analyzer.stripHtml(body);
-            return stripped.substring(0, 500) + (stripped.length > 500 ? '...' : '');
-          })(),
-        })),
-        teamMessages: teamMessages.slice(-3).map((m) => ({
-          date: m.created_at,
-          content: (() => {
-            const body = normalizeThreadBody(m.body);
-            const stripped = analyzer.stripHtml(body);
-            return stripped.substring(0, 300) + (stripped.length > 300 ? '...' : '');
-          })(),
-        })),
-        analysis: {
-          isBug: analysis.isBug,
-          isThirdPartyIssue: analysis.isThirdPartyIssue,
-          testedByTeam: analysis.testedByTeam,
-          rootCause: analysis.rootCause,
-        },
-      };
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      const conversation = await loadConversation(resolved);
+      const context = buildTicketContext(ticketId, conversation, analyzer);
 
       return {
         content: [{ type: 'text', text: JSON.stringify(context, null, 2) }],
+        structuredContent: context,
       };
     }
   );
 
   // Tool 7: Search Tickets
-  server.registerTool(
+  registerTool(
     'freescout_search_tickets',
     {
       title: 'Search FreeScout Tickets',
       description:
-        'Search for FreeScout tickets with explicit filter parameters. Use assignee: "unassigned" for unassigned tickets, or assignee: number for specific user. Supports relative time filters like "7d", "24h". Use includeLastMessage: true to get a preview of the most recent message for each ticket.',
-      inputSchema: SearchFiltersSchema,
+        'Search for FreeScout tickets with explicit filter parameters. Use assignee: "unassigned" for unassigned tickets, or a user ID, email, or name for a specific user. Use tags: ["refund"] to find tagged tickets. Supports relative time filters like "7d", "24h". Use includeLastMessage: true to get a preview of the most recent message for each ticket. Use waitingOn: "us" for tickets whose latest message is from the customer. Returns one page unless fetchAll or maxResults is set; pass nextCursor back as cursor to continue. createdBefore, updatedBefore, and waitingOn are applied to each returned page and listed in clientSideFilters, with FreeScout\'s unfiltered count as serverTotalCount. Without a sort, createdBefore and updatedBefore return the oldest tickets first.',
+      inputSchema: SearchFiltersSchema.extend({
+        fetchAll: z
+          .boolean()
+          .optional()
+          .describe(
+            `Page through every matching ticket instead of returning one page (up to ${SEARCH_MAX_RESULTS}, or maxResults)`
+          ),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(SEARCH_MAX_RESULTS)
+          .optional()
+          .describe('Page through results until this many tickets are collected'),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'nextCursor from an earlier result, to continue that search. Carries its filters, so pass no other filters with it.'
+          ),
+      }),
+      outputSchema: SearchTicketsOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
-    async (filters) => {
-      const results = await api.searchConversations(filters);
-      const conversations = results._embedded?.conversations || [];
+    async ({ fetchAll, maxResults, cursor, includeLastMessage, ...searchFilters }, ctx) => {
+      let position: SearchPosition;
+      if (cursor) {
+        if (Object.values(searchFilters).some((value) => value !== undefined)) {
+          throw new Error(
+            'Pass either cursor or search filters, not both: the cursor continues the search it came from'
+          );
+        }
+        position = decodeSearchCursor(cursor);
+      } else {
+        // Resolved once, so the first page and its cursor share a time window
+        const filters = resolveSearchDates(await resolveSearchAssignee(searchFilters));
+        position = { filters, page: filters.page ?? 1, offset: 0 };
+      }
+
+      // Without fetchAll or maxResults, return the rest of one page as before
+      const paging = fetchAll || maxResults !== undefined;
+      const limit = paging ? (maxResults ?? SEARCH_MAX_RESULTS) : Infinity;
+      const progressToken = ctx.mcpReq._meta?.progressToken;
+      const clientSideFilters = clientSideSearchFilters(position.filters);
+      const conversations: FreeScoutConversation[] = [];
+      let lastPage: ConversationPage | undefined;
+      let next: Omit<SearchPosition, 'filters'> | undefined;
+      let total: number | undefined;
+
+      for await (const page of api.iterateConversations(
+        cursor ? { ...position.filters, page: position.page } : position.filters,
+        { signal: ctx.mcpReq.signal, maxPages: SEARCH_MAX_PAGES }
+      )) {
+        const skipped = page.page === position.page ? position.offset : 0;
+        const available = page.conversations.slice(skipped);
+        const room = limit - conversations.length;
+        conversations.push(...available.slice(0, room));
+        lastPage = page;
+        // A cursor starts partway through the results, so count only what is left after it.
+        // FreeScout's count includes tickets the client-side filters drop, so it sets no total then.
+        if (clientSideFilters.length === 0) {
+          total ??= Math.min(
+            limit,
+            Math.max(0, page.totalCount - (page.page - 1) * page.pageSize - skipped)
+          );
+        }
+
+        if (paging && progressToken !== undefined) {
+          await ctx.mcpReq.notify({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: conversations.length,
+              ...(total !== undefined && { total }),
+              message: `Fetched page ${page.page} of ${page.totalPages}`,
+            },
+          });
+        }
+
+        if (available.length > room) {
+          next = { page: page.page, offset: skipped + room };
+          break;
+        }
+        if (!paging || conversations.length >= limit) {
+          break;
+        }
+      }
+      // Stopped at the limit or the page cap with pages left
+      if (!next && lastPage?.hasMore) {
+        next = { page: lastPage.page + 1, offset: 0 };
+      }
 
       // If includeLastMessage is true, fetch threads for each conversation
-      // and include a preview of the most recent message
+      // and include a preview of the most recent message. The API client's
+      // scheduler bounds how many of these requests run at once.
       let conversationsWithPreview = conversations;
-      if (filters.includeLastMessage && conversations.length > 0) {
+      if (includeLastMessage && conversations.length > 0) {
+        ctx.mcpReq.signal.throwIfAborted();
         conversationsWithPreview = await Promise.all(
           conversations.map(async (conv) => {
             try {
-              const fullConv = await api.getConversation(String(conv.id), true);
-              const threads = fullConv._embedded?.threads || [];
-
-              // Filter to actual messages (customer or message type, not notes)
-              const messages = threads
-                .filter((t) => t.type === 'customer' || t.type === 'message')
-                .filter((t) => hasCreatedAt(t.created_at));
-
-              // Sort by created_at descending and get the most recent
-              const sortedMessages = messages.sort((a, b) => {
-                const dateA = new Date(a.created_at || 0).getTime();
-                const dateB = new Date(b.created_at || 0).getTime();
-                return dateB - dateA;
+              const fullConv = await api.getConversation(String(conv.id), true, {
+                signal: ctx.mcpReq.signal,
               });
-
-              const lastMessage = sortedMessages[0];
+              const lastMessage = findLastMessage(fullConv._embedded?.threads || []);
               if (lastMessage) {
                 const body = normalizeThreadBody(lastMessage.body);
                 const stripped = analyzer.stripHtml(body);
@@ -408,75 +1134,1615 @@ export function buildServer(options: BuildServerOptions = {}): McpServer {
             return conv;
           })
         );
+        // A cancelled preview is dropped like a failed one, so report the cancellation instead
+        ctx.mcpReq.signal.throwIfAborted();
       }
 
+      const totalCount = lastPage?.totalCount || 0;
       const output = {
         conversations: conversationsWithPreview,
-        totalCount: results.page?.total_elements || 0,
-        page: results.page?.number,
-        totalPages: results.page?.total_pages,
+        ...(clientSideFilters.length > 0
+          ? { serverTotalCount: totalCount, clientSideFilters }
+          : { totalCount }),
+        page: lastPage?.page,
+        totalPages: lastPage?.totalPages,
+        ...(next && { nextCursor: encodeSearchCursor({ filters: position.filters, ...next }) }),
       };
 
       return {
         content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
       };
     }
   );
 
   // Tool 8: Get Mailboxes
-  server.registerTool(
+  registerTool(
     'freescout_get_mailboxes',
     {
       title: 'Get Mailboxes',
       description: 'Get list of available mailboxes',
       inputSchema: z.object({}),
+      outputSchema: GetMailboxesOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async () => {
-      const mailboxes = await api.getMailboxes();
+      const output = { mailboxes: listMailboxes(await api.getMailboxes()) };
 
       return {
-        content: [{ type: 'text', text: JSON.stringify(mailboxes, null, 2) }],
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
       };
     }
   );
 
-  return server;
-}
+  // Tool 9: Get Customer
+  registerTool(
+    'freescout_get_customer',
+    {
+      title: 'Get FreeScout Customer',
+      description: 'Fetch a FreeScout customer profile by customer ID',
+      inputSchema: z.object({
+        customerId: z.number().int().positive().describe('FreeScout customer ID'),
+      }),
+      outputSchema: GetCustomerOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ customerId }) => {
+      const customer = await api.getCustomer(customerId);
 
-export function startStdioServer(options: Omit<ServeStdioOptions, 'onerror'> = {}): StdioLifecycle {
-  // Preserve the original launcher PID before any startup work can yield.
-  const parentPid = process.ppid;
+      return {
+        content: [{ type: 'text', text: JSON.stringify(customer, null, 2) }],
+        structuredContent: customer,
+      };
+    }
+  );
 
-  // Fail fast before opening stdio, while buildServer still returns a fresh
-  // isolated instance for each legacy or modern connection.
-  loadRuntimeConfiguration();
+  // Tool 10: Search Customers
+  registerTool(
+    'freescout_search_customers',
+    {
+      title: 'Search FreeScout Customers',
+      description:
+        "Search FreeScout customers by email, first name, last name, company, or phone. Company matching is applied to each returned page, which can then come back short; the result lists it in clientSideFilters and reports FreeScout's unfiltered count as serverTotalCount.",
+      inputSchema: CustomerSearchFiltersSchema,
+      outputSchema: SearchCustomersOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async (filters) => {
+      const results = await api.searchCustomers(filters);
+      const totalCount = results.page?.total_elements || 0;
 
-  const handle = serveStdio(() => buildServer(), {
-    ...options,
-    onerror: (error) => {
-      console.error('FreeScout MCP server error:', error);
+      const output = {
+        customers: results._embedded?.customers || [],
+        ...(filters.company
+          ? { serverTotalCount: totalCount, clientSideFilters: ['company'] }
+          : { totalCount }),
+        page: results.page?.number,
+        totalPages: results.page?.total_pages,
+      };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 11: Update Customer
+  registerTool(
+    'freescout_update_customer',
+    {
+      title: 'Update FreeScout Customer',
+      description: 'Correct a FreeScout customer name, company, or job title',
+      inputSchema: CustomerUpdateSchema.extend({
+        customerId: z.number().int().positive().describe('FreeScout customer ID'),
+      }),
+      outputSchema: UpdateCustomerOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
-  });
+    async ({ customerId, ...updates }) => {
+      const changedFields = Object.keys(updates).filter(
+        (field) => updates[field as keyof typeof updates] !== undefined
+      );
 
-  return installStdioLifecycle({
-    handle,
-    parentPid,
-    onError: (error) => {
-      console.error('FreeScout MCP server shutdown error:', error);
+      if (changedFields.length === 0) {
+        throw new Error('Provide at least one customer field to update');
+      }
+
+      await api.updateCustomer(customerId, updates);
+
+      const output = {
+        success: true,
+        message: `Customer #${customerId} updated successfully`,
+        customerId,
+        updatedFields: changedFields,
+      };
+
+      return {
+        content: [{ type: 'text', text: output.message }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 12: Get Customer History
+  registerTool(
+    'freescout_get_customer_history',
+    {
+      title: 'Get Customer History',
+      description:
+        "Get a compact timeline of a customer's conversations, identified by a ticket, customer ID, or email. Use this before replying to spot repeat or related requests.",
+      inputSchema: z.object({
+        ticket: ticketReference
+          .optional()
+          .describe(
+            'Ticket ID (123 or id:123), ticket number (#4521 or number:4521), or FreeScout URL whose customer to look up'
+          ),
+        customerId: z.number().int().positive().optional().describe('FreeScout customer ID'),
+        customerEmail: z.string().email().optional().describe('Customer email address'),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(CUSTOMER_HISTORY_MAX_RESULTS)
+          .optional()
+          .describe(
+            `Maximum conversations to return (default: ${CUSTOMER_HISTORY_DEFAULT_RESULTS}, max: ${CUSTOMER_HISTORY_MAX_RESULTS})`
+          ),
+      }),
+      outputSchema: GetCustomerHistoryOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
-  });
-}
+    async ({ ticket, customerId, customerEmail, maxResults }) => {
+      const identifiers = [ticket, customerId, customerEmail].filter((v) => v !== undefined);
+      if (identifiers.length !== 1) {
+        throw new Error('Provide exactly one of ticket, customerId, or customerEmail');
+      }
 
-function main(): void {
-  try {
-    startStdioServer();
-    console.error(`FreeScout MCP Server v${packageJson.version} running...`);
-  } catch (error) {
-    console.error(
-      'FreeScout MCP server startup error:',
-      error instanceof Error ? error.message : String(error)
-    );
-    process.exitCode = 1;
+      const customerFilter: Pick<SearchFilters, 'customerId' | 'customerEmail'> = {};
+      if (ticket !== undefined) {
+        const resolved = await api.resolveTicket(ticket);
+        const ticketId = resolved.id;
+        const conversation = await loadConversation(resolved, false);
+        const embeddedCustomer = conversation._embedded?.customer;
+        const ticketCustomerId = conversation.customer_id ?? embeddedCustomer?.id;
+
+        if (ticketCustomerId !== undefined) {
+          customerFilter.customerId = ticketCustomerId;
+        } else if (embeddedCustomer?.email) {
+          customerFilter.customerEmail = embeddedCustomer.email;
+        } else {
+          throw new Error(
+            `Ticket ${formatTicket({ id: ticketId, number: conversation.number })} has no customer to look up`
+          );
+        }
+      } else if (customerId !== undefined) {
+        customerFilter.customerId = customerId;
+      } else {
+        customerFilter.customerEmail = customerEmail;
+      }
+
+      const limit = maxResults ?? CUSTOMER_HISTORY_DEFAULT_RESULTS;
+      const conversations: FreeScoutConversation[] = [];
+      let totalCount = 0;
+
+      for await (const page of api.iterateConversations(
+        {
+          ...customerFilter,
+          status: 'all',
+          page: 1,
+          pageSize: Math.min(limit, CUSTOMER_HISTORY_PAGE_SIZE),
+        },
+        { embedThreads: true }
+      )) {
+        conversations.push(...page.conversations);
+        totalCount = page.totalCount;
+        if (conversations.length >= limit) break;
+      }
+
+      const timeline = conversations.slice(0, limit).map((conv) => {
+        const lastMessage = findLastMessage(conv._embedded?.threads || []);
+        const stripped = lastMessage
+          ? analyzer.stripHtml(normalizeThreadBody(lastMessage.body))
+          : '';
+
+        return {
+          ticketId: String(conv.id),
+          ticketNumber: conv.number,
+          subject: conv.subject,
+          status: conv.status,
+          createdAt: conv.created_at,
+          updatedAt: conv.updated_at,
+          assigneeId: conv.user_id ?? null,
+          lastMessage: lastMessage
+            ? {
+                type: lastMessage.type,
+                date: lastMessage.created_at,
+                preview: stripped.substring(0, 200) + (stripped.length > 200 ? '...' : ''),
+              }
+            : null,
+        };
+      });
+
+      const output = {
+        customer: customerFilter,
+        conversations: timeline,
+        totalCount,
+        truncated: totalCount > timeline.length,
+      };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 13: Create Ticket
+  registerTool(
+    'freescout_create_ticket',
+    {
+      title: 'Create FreeScout Ticket',
+      description:
+        'Open a new FreeScout conversation to contact a customer first (for example about a refund or security notice). Created as a draft by default so it can be reviewed before the customer is emailed.',
+      inputSchema: z.object({
+        mailboxId: z.number().int().positive().describe('Mailbox to create the ticket in'),
+        customerEmail: z.string().email().optional().describe('Customer email address'),
+        customerId: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Existing FreeScout customer ID'),
+        subject: z.string().min(1).describe('Ticket subject'),
+        body: z.string().min(1).describe('First thread content (Markdown is converted to HTML)'),
+        threadType: z
+          .enum(['message', 'note', 'customer'])
+          .optional()
+          .default('message')
+          .describe(
+            'First thread type: message (outbound reply), note (internal), or customer (on behalf of the customer)'
+          ),
+        to: z.array(z.string().email()).optional().describe('Optional TO recipients'),
+        cc: z.array(z.string().email()).optional().describe('Optional CC recipients'),
+        bcc: z.array(z.string().email()).optional().describe('Optional BCC recipients'),
+        assignTo: userIdentifier
+          .optional()
+          .describe('User ID, email, or name to assign the ticket to'),
+        status: z
+          .enum(['active', 'pending', 'closed'])
+          .optional()
+          .describe('Initial ticket status (FreeScout default: active)'),
+        tags: z.array(z.string().min(1)).optional().describe('Tags to add to the ticket'),
+        draft: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Save as a draft without emailing the customer (default: true). Sending a message thread right away needs the send reply gate and the user's confirmation."
+          ),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name creating the ticket (defaults to env setting)'),
+      }),
+      outputSchema: CreateTicketOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (
+      {
+        mailboxId,
+        customerEmail,
+        customerId,
+        subject,
+        body,
+        threadType,
+        to,
+        cc,
+        bcc,
+        assignTo,
+        status,
+        tags,
+        draft,
+        userId,
+      },
+      ctx
+    ) => {
+      if ((customerEmail === undefined) === (customerId === undefined)) {
+        throw new Error('Provide exactly one of customerEmail or customerId');
+      }
+
+      policy.assertStatus(status);
+      policy.assertMailbox(mailboxId, 'creating tickets');
+
+      const isDraft = draft ?? true;
+      let confirmed: boolean | undefined;
+
+      // A published message thread emails the customer, so it passes the send reply gate
+      if (!isDraft && (threadType ?? 'message') === 'message') {
+        if (!sendReply.enabled) {
+          throw new Error(
+            'Creating a ticket with draft: false emails the customer, and sending is not enabled (FREESCOUT_ENABLE_SEND_REPLY). Leave draft: true to save it for review.'
+          );
+        }
+        policy.assertToolEnabled('freescout_send_reply', 'emailing new tickets');
+        assertSendMailbox(mailboxId, 'new tickets');
+
+        const confirmation = await confirmEmail(
+          ctx,
+          `New ticket "${subject}"`,
+          `Create ticket "${subject}" in mailbox ${mailboxId} and email it to ${customerEmail ?? `customer ${customerId}`}?\n\n${body}`
+        );
+
+        if (confirmation.status === 'pending') {
+          return confirmation.result;
+        }
+
+        if (confirmation.status === 'declined') {
+          throw new Error(
+            `Ticket "${subject}" was not created because emailing it to the customer was not confirmed`
+          );
+        }
+
+        confirmed = confirmation.status === 'confirmed';
+      }
+
+      const conversation = await api.createConversation({
+        mailboxId,
+        subject,
+        customer: customerId !== undefined ? { id: customerId } : { email: customerEmail! },
+        threadType: threadType ?? 'message',
+        text: body,
+        userId: await resolveActingUser(userId),
+        recipients: { to, cc, bcc },
+        assignTo: await resolveUser(assignTo),
+        status,
+        tags,
+        draft: isDraft,
+      });
+
+      const output = {
+        success: true,
+        message: `${isDraft ? 'Draft ticket' : 'Ticket'} #${conversation.number} created in mailbox ${mailboxId}`,
+        ticketId: String(conversation.id),
+        ticketNumber: conversation.number,
+        draft: isDraft,
+        ...(confirmed !== undefined && { confirmed }),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ ${output.message}\n\nTicket ID: ${conversation.id}${isDraft ? '\n\nThe draft is saved in FreeScout and can be reviewed and sent from the FreeScout interface.' : ''}`,
+          },
+        ],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 14: List Tags
+  registerTool(
+    'freescout_list_tags',
+    {
+      title: 'List Tags',
+      description: 'List all tags defined in FreeScout with their usage counts',
+      inputSchema: z.object({
+        page: z.number().min(1).optional().describe('Page number for pagination'),
+      }),
+      outputSchema: ListTagsOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ page }) => {
+      const results = await api.getTags(page);
+
+      const output = {
+        tags: results._embedded?.tags || [],
+        totalCount: results.page?.total_elements || 0,
+        page: results.page?.number,
+        totalPages: results.page?.total_pages,
+      };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 15: Get Ticket Tags
+  registerTool(
+    'freescout_get_ticket_tags',
+    {
+      title: 'Get Ticket Tags',
+      description: 'Get the tags currently applied to a FreeScout ticket',
+      inputSchema: z.object({
+        ticket: ticketReference,
+      }),
+      outputSchema: GetTicketTagsOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ ticket }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      // A ticket loaded while resolving its ID already embeds its tags
+      const tags = resolved.conversation
+        ? conversationTags(resolved.conversation)
+        : await api.getConversationTags(ticketId);
+
+      const output = { ticketId, ticketNumber: resolved.number, tags };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 16: Update Ticket Tags
+  registerTool(
+    'freescout_update_ticket_tags',
+    {
+      title: 'Update Ticket Tags',
+      description:
+        'Add and/or remove tags on a FreeScout ticket, or replace its tags entirely. Use replace: [] to clear all tags.',
+      inputSchema: z.object({
+        ticket: ticketReference,
+        add: z.array(z.string().min(1)).optional().describe('Tags to add'),
+        remove: z.array(z.string().min(1)).optional().describe('Tags to remove'),
+        replace: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Replace all tags with this list (cannot be combined with add/remove)'),
+      }),
+      outputSchema: UpdateTicketTagsOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, add, remove, replace }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      await assertTicketAllowed(resolved);
+
+      let tags: string[];
+      if (replace !== undefined) {
+        if (add !== undefined || remove !== undefined) {
+          throw new Error('Use either replace or add/remove, not both');
+        }
+        await api.setConversationTags(ticketId, replace);
+        tags = replace;
+      } else if (add !== undefined || remove !== undefined) {
+        tags = await api.updateConversationTags(ticketId, { add, remove });
+      } else {
+        throw new Error('Provide tags to add, remove, or replace');
+      }
+
+      const output = {
+        success: true,
+        message: `Tags updated on ticket ${formatTicket(resolved)}`,
+        ticketId,
+        ticketNumber: resolved.number,
+        tags,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${output.message}: ${tags.length > 0 ? tags.join(', ') : '(none)'}`,
+          },
+        ],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 17: Get Custom Fields
+  registerTool(
+    'freescout_get_custom_fields',
+    {
+      title: 'Get Custom Field Definitions',
+      description:
+        'List the custom fields defined for a mailbox, including their types and dropdown options',
+      inputSchema: z.object({
+        mailboxId: z.number().int().positive().describe('Mailbox ID'),
+      }),
+      outputSchema: GetCustomFieldsOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ mailboxId }) => {
+      const output = { mailboxId, fields: await api.getCustomFields(mailboxId) };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 18: Set Custom Fields
+  registerTool(
+    'freescout_set_custom_fields',
+    {
+      title: 'Set Ticket Custom Fields',
+      description:
+        "Set custom field values on a FreeScout ticket. Fields are keyed by name or ID and validated against the mailbox's field types (dropdown options, YYYY-MM-DD dates, numbers) before saving. Use null to clear a field.",
+      inputSchema: z.object({
+        ticket: ticketReference,
+        fields: z
+          .record(z.string(), z.union([z.string(), z.number(), z.null()]))
+          .describe('Values keyed by custom field name or ID, e.g. { "Plugin version": "3.46.7" }'),
+      }),
+      outputSchema: SetCustomFieldsOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, fields }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+
+      if (Object.keys(fields).length === 0) {
+        throw new Error('Provide at least one custom field value');
+      }
+
+      const conversation = await loadConversation(resolved, false);
+      await assertTicketAllowed(resolved, conversation);
+      if (conversation.mailbox_id == null) {
+        throw new Error(`Unable to determine the mailbox for ticket ${formatTicket(resolved)}`);
+      }
+
+      const definitions = await api.getCustomFields(conversation.mailbox_id);
+      const values = validateCustomFieldValues(definitions, fields);
+
+      await api.setCustomFields(ticketId, values);
+
+      const updatedFields = values.map(
+        (value) => definitions.find((field) => field.id === value.id)!.name
+      );
+      const output = {
+        success: true,
+        message: `Custom fields updated on ticket ${formatTicket(resolved)}`,
+        ticketId,
+        ticketNumber: resolved.number,
+        updatedFields,
+      };
+
+      return {
+        content: [{ type: 'text', text: `${output.message}: ${updatedFields.join(', ')}` }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 19: Get Attachment
+  registerTool(
+    'freescout_get_attachment',
+    {
+      title: 'Get Ticket Attachment',
+      description:
+        'Download an attachment from a FreeScout ticket. Text files (logs, JSON, CSV) are returned as text and images as image content so screenshots can be inspected. Attachment IDs are listed in freescout_get_ticket.',
+      inputSchema: z.object({
+        ticket: ticketReference,
+        attachment: z.string().describe('Attachment ID or file name'),
+        maxBytes: z
+          .number()
+          .int()
+          .positive()
+          .max(ATTACHMENT_MAX_BYTES)
+          .optional()
+          .describe(
+            `Maximum download size in bytes (default: ${ATTACHMENT_DEFAULT_MAX_BYTES}, max: ${ATTACHMENT_MAX_BYTES})`
+          ),
+      }),
+      outputSchema: GetAttachmentOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ ticket, attachment, maxBytes }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      const conversation = await loadConversation(resolved);
+      const found = findAttachment(conversation, attachment);
+
+      if (!found) {
+        throw new Error(`Attachment "${attachment}" not found on ticket ${formatTicket(resolved)}`);
+      }
+      if (!found.url) {
+        throw new Error(`Attachment "${found.file_name}" has no download URL`);
+      }
+
+      const limit = maxBytes ?? ATTACHMENT_DEFAULT_MAX_BYTES;
+      const kind = classifyAttachment(found.file_name, found.mime_type);
+
+      // Text is cut at the limit instead; an image cut short would not render
+      if (kind !== 'text' && found.size > limit) {
+        throw new Error(
+          `Attachment "${found.file_name}" is ${found.size} bytes, which exceeds the ${limit} byte limit`
+        );
+      }
+
+      const summary = `${found.file_name} (${found.mime_type}, ${found.size} bytes)`;
+      const output = {
+        ticketId,
+        ticketNumber: resolved.number,
+        attachmentId: found.id,
+        fileName: found.file_name,
+        mimeType: found.mime_type,
+        size: found.size,
+        kind,
+      };
+
+      if (kind === 'binary') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${summary} is a binary file that cannot be displayed. Download it from FreeScout to inspect it.`,
+            },
+          ],
+          structuredContent: output,
+        };
+      }
+
+      const download = await api.downloadAttachment(found.url, limit, {
+        truncate: kind === 'text',
+      });
+
+      if (kind === 'image') {
+        return {
+          content: [
+            { type: 'text', text: summary },
+            {
+              type: 'image',
+              data: download.data.toString('base64'),
+              mimeType: normalizeMimeType(found.mime_type),
+            },
+          ],
+          structuredContent: output,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: download.truncated
+              ? `${summary}, truncated to the first ${limit} bytes`
+              : summary,
+          },
+          { type: 'text', text: download.data.toString('utf8') },
+        ],
+        structuredContent: { ...output, truncated: download.truncated },
+      };
+    }
+  );
+
+  // Tool 20: List Users
+  registerTool(
+    'freescout_list_users',
+    {
+      title: 'List Users',
+      description:
+        'List FreeScout users (support agents) with their IDs, names, and emails. Tools that take a user ID also accept an email address or name.',
+      inputSchema: z.object({}),
+      outputSchema: ListUsersOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async () => {
+      const directory = await users.list();
+      const output = {
+        users: directory.map((user) => ({
+          id: user.id,
+          name: `${user.first_name || ''} ${user.last_name || ''}`.trim(),
+          email: user.email,
+          role: user.role,
+        })),
+      };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 21: Send Reply (opt-in only)
+  if (sendReply.enabled) {
+    registerTool(
+      'freescout_send_reply',
+      {
+        title: 'Send Reply',
+        description:
+          'Send a reply to the customer immediately. Unlike a draft, the email goes out as soon as the user confirms. Prefer freescout_create_draft_reply unless the reply is routine and clearly correct.',
+        inputSchema: z.object({
+          ticket: ticketReference,
+          replyText: z.string().describe('The reply content to send to the customer'),
+          userId: userIdentifier
+            .optional()
+            .describe('User ID, email, or name sending the reply (defaults to env setting)'),
+          to: z
+            .array(z.string().email())
+            .optional()
+            .describe('Optional TO recipients. Omit to use the conversation defaults.'),
+          cc: z.array(z.string().email()).optional().describe('Optional CC recipients'),
+          bcc: z.array(z.string().email()).optional().describe('Optional BCC recipients'),
+          attachments: attachmentUploadsInput,
+        }),
+        outputSchema: SendReplyOutputSchema,
+        annotations: {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: true,
+        },
+      },
+      async ({ ticket, replyText, userId, to, cc, bcc, attachments }, ctx) => {
+        const resolved = await api.resolveTicket(ticket);
+        const ticketId = resolved.id;
+        const conversation = await loadConversation(resolved, false);
+
+        await assertTicketAllowed(resolved, conversation);
+        assertSendAllowed(resolved, conversation);
+
+        const actualUserId = await resolveActingUser(userId);
+        const uploads = await prepareUploads(attachments);
+        const recipients: FreeScoutRecipients = { to, cc, bcc };
+
+        const confirmation = await confirmSend(ctx, resolved, conversation, replyText);
+
+        if (confirmation.status === 'pending') {
+          return confirmation.result;
+        }
+
+        if (confirmation.status === 'declined') {
+          return replyNotSent(resolved);
+        }
+
+        const thread = await api.addThread(
+          ticketId,
+          'message',
+          replyText,
+          actualUserId,
+          'published',
+          recipients,
+          uploads
+        );
+
+        const output = {
+          success: true,
+          message: `Reply sent on FreeScout ticket ${formatTicket(resolved)}`,
+          ticketId,
+          ticketNumber: resolved.number,
+          threadId: thread.id,
+          confirmed: confirmation.status === 'confirmed',
+          attachmentIds: attachmentIds(thread),
+        };
+
+        return {
+          content: [{ type: 'text', text: `✅ ${output.message}\n\nThread ID: ${thread.id}` }],
+          structuredContent: output,
+        };
+      }
+    );
+  }
+
+  // Tool 22: List Drafts
+  registerTool(
+    'freescout_list_drafts',
+    {
+      title: 'List Drafts',
+      description: 'List the unsent draft replies on a ticket, oldest first',
+      inputSchema: z.object({
+        ticket: ticketReference,
+      }),
+      outputSchema: ListDraftsOutputSchema,
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    async ({ ticket }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      const drafts = await api.getDrafts(ticketId);
+      const output = {
+        ticketId,
+        ticketNumber: resolved.number,
+        drafts: drafts.map((draft) => ({
+          id: draft.id,
+          createdAt: draft.created_at,
+          createdByUserId: draft.created_by?.type === 'user' ? draft.created_by.id : null,
+          to: draft.to || [],
+          cc: draft.cc || [],
+          bcc: draft.bcc || [],
+          body: analyzer.stripHtml(normalizeThreadBody(draft.body)),
+          attachmentIds: attachmentIds(draft),
+        })),
+      };
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 23: Update Draft
+  registerTool(
+    'freescout_update_draft',
+    {
+      title: 'Update Draft',
+      description: "Update an existing draft reply's body and recipients in place",
+      inputSchema: z.object({
+        ticket: ticketReference,
+        draftId: z
+          .number()
+          .int()
+          .positive()
+          .describe('Draft thread ID (from freescout_list_drafts)'),
+        replyText: z
+          .string()
+          .optional()
+          .describe('New draft content (supports Markdown). Omit to keep the current body.'),
+        to: z
+          .array(z.string().email())
+          .optional()
+          .describe('TO recipients. Omit to keep the current recipients; pass [] to clear.'),
+        cc: z
+          .array(z.string().email())
+          .optional()
+          .describe('CC recipients. Omit to keep the current recipients; pass [] to clear.'),
+        bcc: z
+          .array(z.string().email())
+          .optional()
+          .describe('BCC recipients. Omit to keep the current recipients; pass [] to clear.'),
+      }),
+      outputSchema: DraftWriteOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, draftId, replyText, to, cc, bcc }) => {
+      if (replyText === undefined && to === undefined && cc === undefined && bcc === undefined) {
+        throw new Error('Provide replyText or recipients to update');
+      }
+
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      await assertTicketAllowed(resolved);
+      await findDraft(resolved, draftId);
+      await api.updateThread(ticketId, draftId, { text: replyText, recipients: { to, cc, bcc } });
+
+      const output = {
+        success: true,
+        message: `Draft ${draftId} updated in FreeScout ticket ${formatTicket(resolved)}`,
+        ticketId,
+        ticketNumber: resolved.number,
+        draftId,
+      };
+
+      return {
+        content: [{ type: 'text', text: `✅ ${output.message}` }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 24: Delete Draft
+  registerTool(
+    'freescout_delete_draft',
+    {
+      title: 'Delete Draft',
+      description: 'Delete an unsent draft reply, for example a duplicate',
+      inputSchema: z.object({
+        ticket: ticketReference,
+        draftId: z
+          .number()
+          .int()
+          .positive()
+          .describe('Draft thread ID (from freescout_list_drafts)'),
+      }),
+      outputSchema: DraftWriteOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, draftId }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      await assertTicketAllowed(resolved);
+      await findDraft(resolved, draftId);
+      await api.deleteThread(ticketId, draftId);
+
+      const output = {
+        success: true,
+        message: `Draft ${draftId} deleted from FreeScout ticket ${formatTicket(resolved)}`,
+        ticketId,
+        ticketNumber: resolved.number,
+        draftId,
+      };
+
+      return {
+        content: [{ type: 'text', text: `✅ ${output.message}` }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 25: Send Draft (opt-in only, same safety gate as Send Reply)
+  if (sendReply.enabled) {
+    registerTool(
+      'freescout_send_draft',
+      {
+        title: 'Send Draft',
+        description:
+          'Send an existing draft reply to the customer. The email goes out as soon as the user confirms.',
+        inputSchema: z.object({
+          ticket: ticketReference,
+          draftId: z
+            .number()
+            .int()
+            .positive()
+            .describe('Draft thread ID (from freescout_list_drafts)'),
+        }),
+        outputSchema: SendReplyOutputSchema,
+        annotations: {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: true,
+        },
+      },
+      async ({ ticket, draftId }, ctx) => {
+        const resolved = await api.resolveTicket(ticket);
+        const ticketId = resolved.id;
+        const conversation = await loadConversation(resolved, false);
+        await assertTicketAllowed(resolved, conversation);
+        assertSendAllowed(resolved, conversation);
+
+        const draft = await findDraft(resolved, draftId);
+        const confirmation = await confirmSend(
+          ctx,
+          resolved,
+          conversation,
+          analyzer.stripHtml(normalizeThreadBody(draft.body))
+        );
+
+        if (confirmation.status === 'pending') {
+          return confirmation.result;
+        }
+
+        if (confirmation.status === 'declined') {
+          return replyNotSent(resolved);
+        }
+
+        await api.publishDraft(ticketId, draftId);
+
+        const output = {
+          success: true,
+          message: `Draft ${draftId} sent on FreeScout ticket ${formatTicket(resolved)}`,
+          ticketId,
+          ticketNumber: resolved.number,
+          threadId: draftId,
+          confirmed: confirmation.status === 'confirmed',
+        };
+
+        return {
+          content: [{ type: 'text', text: `✅ ${output.message}` }],
+          structuredContent: output,
+        };
+      }
+    );
+  }
+
+  // Tool 26: Merge Tickets
+  registerTool(
+    'freescout_merge_tickets',
+    {
+      title: 'Merge Tickets',
+      description:
+        "Merge a duplicate ticket into another one. The duplicate's threads move to the target ticket and the duplicate is removed.",
+      inputSchema: z.object({
+        ticket: ticketReference.describe(
+          'Duplicate ticket to merge away: ID (123 or id:123), number (#4521 or number:4521), or URL'
+        ),
+        into: ticketReference.describe(
+          'Ticket to keep: ID (123 or id:123), number (#4521 or number:4521), or URL'
+        ),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name performing the merge (default: from env)'),
+      }),
+      outputSchema: MergeTicketsOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, into, userId }) => {
+      const [sourceTicket, targetTicket] = await Promise.all([
+        api.resolveTicket(ticket),
+        api.resolveTicket(into),
+      ]);
+      const sourceId = sourceTicket.id;
+      const targetId = targetTicket.id;
+
+      if (sourceId === targetId) {
+        throw new Error('Cannot merge a ticket into itself');
+      }
+
+      const [source, target] = await Promise.all([
+        loadConversation(sourceTicket, false),
+        loadConversation(targetTicket, false),
+      ]);
+      await assertTicketAllowed(sourceTicket, source);
+      await assertTicketAllowed(targetTicket, target);
+      await api.mergeConversations(sourceId, targetId, await resolveActingUser(userId));
+
+      const output = {
+        success: true,
+        message: `Ticket ${formatTicket(sourceTicket)} ("${source.subject}") was merged into ticket ${formatTicket(targetTicket)} ("${target.subject}")`,
+        ticketId: targetId,
+        ticketNumber: targetTicket.number,
+        mergedTicketId: sourceId,
+        mergedTicketNumber: sourceTicket.number,
+      };
+
+      return {
+        content: [{ type: 'text', text: `✅ ${output.message}` }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 27: Move Ticket
+  registerTool(
+    'freescout_move_ticket',
+    {
+      title: 'Move Ticket',
+      description: 'Move a ticket to a different mailbox',
+      inputSchema: z.object({
+        ticket: ticketReference,
+        mailboxId: z.number().int().positive().describe('Mailbox to move the ticket to'),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name recording this update (default: from env)'),
+      }),
+      outputSchema: TicketChangesOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, mailboxId, userId }) => {
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      const [conversation, mailboxes] = await Promise.all([
+        loadConversation(resolved, false),
+        api.getMailboxes().then(listMailboxes),
+      ]);
+      await assertTicketAllowed(resolved, conversation);
+      policy.assertMailbox(mailboxId, 'moving tickets');
+
+      if (mailboxes.length > 0 && !mailboxes.some((mailbox) => mailbox.id === mailboxId)) {
+        throw new Error(
+          `Mailbox ${mailboxId} not found. Available mailboxes: ${mailboxes
+            .map((mailbox) => `${mailbox.id} (${mailbox.name ?? 'unnamed'})`)
+            .join(', ')}`
+        );
+      }
+
+      const label = (id: number | undefined) => {
+        if (id === undefined) return null;
+        const name = mailboxes.find((mailbox) => mailbox.id === id)?.name;
+        return name ? `${name} (${id})` : id;
+      };
+      const changes: FieldChange[] =
+        conversation.mailbox_id === mailboxId
+          ? []
+          : [{ field: 'mailbox', from: label(conversation.mailbox_id), to: label(mailboxId) }];
+
+      if (changes.length > 0) {
+        await api.updateConversation(ticketId, {
+          mailboxId,
+          byUser: await resolveActingUser(userId),
+        });
+      }
+
+      const output = {
+        success: true,
+        message:
+          changes.length > 0
+            ? `Ticket ${formatTicket(resolved)} moved to mailbox ${label(mailboxId)}`
+            : `Ticket ${formatTicket(resolved)} is already in mailbox ${label(mailboxId)}`,
+        ticketId,
+        ticketNumber: resolved.number,
+        changes,
+      };
+
+      return {
+        content: [{ type: 'text', text: [output.message, ...formatChanges(changes)].join('\n') }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 28: Update Ticket Details
+  registerTool(
+    'freescout_update_ticket_details',
+    {
+      title: 'Update Ticket Subject/Customer',
+      description: 'Change the subject of a ticket and/or the customer it belongs to',
+      inputSchema: z.object({
+        ticket: ticketReference,
+        subject: z.string().min(1).optional().describe('New ticket subject'),
+        customerId: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('ID of the customer to move the ticket to'),
+        customerEmail: z
+          .string()
+          .email()
+          .optional()
+          .describe('Email of an existing customer to move the ticket to'),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name recording this update (default: from env)'),
+      }),
+      outputSchema: TicketChangesOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ ticket, subject, customerId, customerEmail, userId }) => {
+      if (customerId !== undefined && customerEmail !== undefined) {
+        throw new Error('Provide either customerId or customerEmail, not both');
+      }
+
+      if (subject === undefined && customerId === undefined && customerEmail === undefined) {
+        throw new Error('Provide a subject or customer to update');
+      }
+
+      const resolved = await api.resolveTicket(ticket);
+      const ticketId = resolved.id;
+      const conversation = await loadConversation(resolved, false);
+      await assertTicketAllowed(resolved, conversation);
+      const currentCustomer = conversation._embedded?.customer;
+      const changes: FieldChange[] = [];
+      const updates: { subject?: string; customerId?: number; byUser?: number } = {};
+
+      if (subject !== undefined && subject !== conversation.subject) {
+        updates.subject = subject;
+        changes.push({ field: 'subject', from: conversation.subject, to: subject });
+      }
+
+      if (customerId !== undefined || customerEmail !== undefined) {
+        let customer;
+        if (customerId !== undefined) {
+          customer = await api.getCustomer(customerId);
+        } else {
+          const matches = await api.searchCustomers({ email: customerEmail });
+          customer = (matches._embedded?.customers || []).find(
+            (candidate) => candidate.email.toLowerCase() === customerEmail!.toLowerCase()
+          );
+          if (!customer) {
+            throw new Error(`No FreeScout customer found with email ${customerEmail}`);
+          }
+        }
+
+        const currentId = currentCustomer?.id ?? conversation.customer_id;
+        if (customer.id !== currentId) {
+          updates.customerId = customer.id;
+          changes.push({
+            field: 'customer',
+            from: currentCustomer?.email ?? currentId ?? null,
+            to: customer.email,
+          });
+        }
+      }
+
+      if (changes.length > 0) {
+        updates.byUser = await resolveActingUser(userId);
+        await api.updateConversation(ticketId, updates);
+      }
+
+      const output = {
+        success: true,
+        message:
+          changes.length > 0
+            ? `Ticket ${formatTicket(resolved)} updated: ${changes.map((change) => change.field).join(', ')}`
+            : `Ticket ${formatTicket(resolved)} already has these details; nothing changed`,
+        ticketId,
+        ticketNumber: resolved.number,
+        changes,
+      };
+
+      return {
+        content: [{ type: 'text', text: [output.message, ...formatChanges(changes)].join('\n') }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  // Tool 29: Bulk Update
+  registerTool(
+    'freescout_bulk_update',
+    {
+      title: 'Bulk Update Tickets',
+      description:
+        'Apply the same status, assignee, tag, or note change to many tickets at once. Target either an explicit list of tickets or a search query. Use dryRun: true first to see which tickets would be touched.',
+      inputSchema: z.object({
+        tickets: z
+          .array(z.string())
+          .min(1)
+          .max(BULK_UPDATE_MAX_TICKETS)
+          .optional()
+          .describe(
+            'Ticket IDs (123 or id:123), numbers (#4521 or number:4521), or URLs to update'
+          ),
+        query: SearchFiltersSchema.omit({ page: true, pageSize: true, includeLastMessage: true })
+          .optional()
+          .describe(
+            'Search filters selecting the tickets to update (same as freescout_search_tickets)'
+          ),
+        maxTickets: z
+          .number()
+          .int()
+          .min(1)
+          .max(BULK_UPDATE_MAX_TICKETS)
+          .optional()
+          .describe(
+            `Maximum tickets to take from the query (default: ${BULK_UPDATE_DEFAULT_QUERY_LIMIT})`
+          ),
+        status: z
+          .enum(['active', 'pending', 'closed', 'spam'])
+          .optional()
+          .describe('New ticket status'),
+        assignTo: userIdentifier
+          .optional()
+          .describe('User ID, email, or name to assign the tickets to'),
+        addTags: z.array(z.string().min(1)).optional().describe('Tags to add'),
+        removeTags: z.array(z.string().min(1)).optional().describe('Tags to remove'),
+        note: z.string().min(1).optional().describe('Internal note to add to each ticket'),
+        userId: userIdentifier
+          .optional()
+          .describe('User ID, email, or name recording the changes (default: from env)'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Only list the tickets that would be updated'),
+      }),
+      outputSchema: BulkUpdateOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async ({
+      tickets,
+      query,
+      maxTickets,
+      status,
+      assignTo,
+      addTags,
+      removeTags,
+      note,
+      userId,
+      dryRun,
+    }) => {
+      if ((tickets === undefined) === (query === undefined)) {
+        throw new Error('Provide exactly one of tickets or query');
+      }
+
+      if (
+        !status &&
+        assignTo === undefined &&
+        !addTags?.length &&
+        !removeTags?.length &&
+        note === undefined
+      ) {
+        throw new Error(
+          'Provide at least one change: status, assignTo, addTags, removeTags, or note'
+        );
+      }
+
+      if (status || assignTo !== undefined) {
+        policy.assertToolEnabled('freescout_update_ticket', 'changing status or assignee');
+      }
+      if (addTags?.length || removeTags?.length) {
+        policy.assertToolEnabled('freescout_update_ticket_tags', 'changing tags');
+      }
+      if (note !== undefined) {
+        policy.assertToolEnabled('freescout_add_note', 'adding notes');
+      }
+      policy.assertStatus(status);
+
+      const assigneeId = await resolveUser(assignTo);
+      const byUser = await resolveActingUser(userId);
+      const changes = {
+        ...(status && { status }),
+        ...(assigneeId !== undefined && { assignTo: assigneeId }),
+        ...(addTags?.length && { addTags }),
+        ...(removeTags?.length && { removeTags }),
+        ...(note !== undefined && { note }),
+      };
+
+      type Target = { ticketId: string; ticketNumber: number; subject?: string; status?: string };
+      type TargetResult = Target & { success: boolean; applied: string[]; error?: string };
+      let targets: Target[];
+      let truncated = false;
+
+      if (tickets) {
+        // Resolve every ticket before changing any, so an unknown number fails the whole run
+        const resolved = await Promise.all(tickets.map((ticket) => api.resolveTicket(ticket)));
+        targets = [...new Map(resolved.map((ticket) => [ticket.id, ticket])).values()].map(
+          (ticket) => ({ ticketId: ticket.id, ticketNumber: ticket.number })
+        );
+      } else {
+        const filters = await resolveSearchAssignee(query!);
+        const limit = maxTickets ?? BULK_UPDATE_DEFAULT_QUERY_LIMIT;
+        const conversations: FreeScoutConversation[] = [];
+        let hasMore = false;
+
+        // FreeScout's count includes tickets that client-side filters drop, so
+        // whether pages remain decides truncation instead
+        for await (const page of api.iterateConversations(
+          { ...filters, page: 1, pageSize: Math.min(limit, BULK_UPDATE_PAGE_SIZE) },
+          { maxPages: SEARCH_MAX_PAGES }
+        )) {
+          conversations.push(...page.conversations);
+          hasMore = page.hasMore;
+          if (conversations.length >= limit) break;
+        }
+
+        truncated = conversations.length > limit || hasMore;
+        targets = conversations.slice(0, limit).map((conv) => ({
+          ticketId: String(conv.id),
+          ticketNumber: conv.number,
+          subject: conv.subject,
+          status: conv.status,
+        }));
+      }
+
+      if (dryRun) {
+        const output = {
+          success: true,
+          dryRun: true,
+          message: `Dry run: ${targets.length} ticket(s) would be updated`,
+          changes,
+          tickets: targets,
+          truncated,
+        };
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+          structuredContent: output,
+        };
+      }
+
+      const results = await mapWithConcurrency(
+        targets,
+        BULK_UPDATE_CONCURRENCY,
+        async (target): Promise<TargetResult> => {
+          const applied: string[] = [];
+
+          try {
+            await assertTicketAllowed({ id: target.ticketId, number: target.ticketNumber });
+
+            if (status || assigneeId !== undefined) {
+              await api.updateConversation(target.ticketId, {
+                ...(status && { status }),
+                ...(assigneeId !== undefined && { assignTo: assigneeId }),
+                byUser,
+              });
+              applied.push(
+                ...(status ? ['status'] : []),
+                ...(assigneeId !== undefined ? ['assignTo'] : [])
+              );
+            }
+
+            if (addTags?.length || removeTags?.length) {
+              await api.updateConversationTags(target.ticketId, {
+                add: addTags,
+                remove: removeTags,
+              });
+              applied.push('tags');
+            }
+
+            if (note !== undefined) {
+              await api.addThread(target.ticketId, 'note', note, byUser);
+              applied.push('note');
+            }
+
+            return { ...target, success: true, applied };
+          } catch (error) {
+            return {
+              ...target,
+              success: false,
+              applied,
+              error:
+                error instanceof FreeScoutAPIError
+                  ? describeApiError(error)
+                  : error instanceof Error
+                    ? error.message
+                    : String(error),
+            };
+          }
+        }
+      );
+
+      const items = results.map((result, index): TargetResult =>
+        result.ok
+          ? result.value
+          : { ...targets[index], success: false, applied: [], error: String(result.error) }
+      );
+      const failed = items.filter((item) => !item.success);
+      const output = {
+        success: failed.length === 0,
+        dryRun: false,
+        message: `Updated ${items.length - failed.length} of ${items.length} ticket(s)${failed.length > 0 ? `; ${failed.length} failed` : ''}`,
+        changes,
+        results: items,
+        succeeded: items.length - failed.length,
+        failed: failed.length,
+        truncated,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              `${failed.length === 0 ? '✅' : '⚠️'} ${output.message}`,
+              ...failed.map(
+                (item) =>
+                  `- ${formatTicket({ id: item.ticketId, number: item.ticketNumber })}: ${item.error}`
+              ),
+            ].join('\n'),
+          },
+        ],
+        structuredContent: output,
+      };
+    }
+  );
+
+  registerResources(server, api, analyzer);
+  registerPrompts(server, api, analyzer, (name) => registeredTools.has(name));
+
+  return server;
+}
+
+export function startStdioServer(options: Omit<ServeStdioOptions, 'onerror'> = {}): StdioLifecycle {
+  // Preserve the original launcher PID before any startup work can yield.
+  const parentPid = process.ppid;
+
+  // Fail fast before opening stdio, while each legacy or modern connection
+  // still gets a fresh server instance.
+  const runtime = loadRuntimeConfiguration();
+
+  const handle = serveStdio(({ era }) => buildRuntimeServer({ era }, runtime), {
+    ...options,
+    onerror: (error) => {
+      console.error('FreeScout MCP server error:', error);
+    },
+  });
+
+  return installStdioLifecycle({
+    handle,
+    parentPid,
+    onError: (error) => {
+      console.error('FreeScout MCP server shutdown error:', error);
+    },
+  });
+}
+
+export interface HttpMcpServer extends StdioLifecycle {
+  url: string;
+}
+
+/**
+ * Serves the same tools over Streamable HTTP for a shared team deployment.
+ * Each request gets a fresh server that acts as the calling token's
+ * FreeScout user. Signals close the listener as in stdio mode, but a vanished
+ * launcher only does when `FREESCOUT_HTTP_WATCH_PARENT` is set, because HTTP
+ * servers usually run detached under a supervisor.
+ */
+export async function startHttpMcpServer(
+  overrides: Partial<HttpConfiguration> = {}
+): Promise<HttpMcpServer> {
+  const parentPid = process.ppid;
+
+  const runtime = loadRuntimeConfiguration();
+  const configuration = { ...parseHttpConfiguration(process.env), ...overrides };
+
+  const handle = await startHttpServer({
+    ...configuration,
+    factory: ({ era, authInfo }) => {
+      const caller = callerIdentity(authInfo);
+      return buildRuntimeServer(
+        {
+          era,
+          callerUserId: caller?.userId,
+          apiKey: caller?.apiKey,
+          stateless: era === 'legacy',
+        },
+        runtime
+      );
+    },
+    version: packageJson.version,
+    onerror: (error) => {
+      console.error('FreeScout MCP server error:', error);
+    },
+  });
+
+  const lifecycle = installStdioLifecycle({
+    handle,
+    parentPid,
+    watchParent: configuration.watchParent,
+    onError: (error) => {
+      console.error('FreeScout MCP server shutdown error:', error);
+    },
+  });
+
+  return { url: handle.url, close: lifecycle.close };
+}
+
+function reportStartupError(error: unknown): void {
+  console.error(
+    'FreeScout MCP server startup error:',
+    error instanceof Error ? error.message : String(error)
+  );
+  process.exitCode = 1;
+}
+
+function main(): void {
+  loadEnv();
+
+  if (isHttpTransportRequested(process.argv.slice(2), process.env)) {
+    startHttpMcpServer().then((server) => {
+      console.error(`FreeScout MCP Server v${packageJson.version} listening on ${server.url}/mcp`);
+    }, reportStartupError);
+    return;
+  }
+
+  try {
+    startStdioServer();
+    console.error(`FreeScout MCP Server v${packageJson.version} running...`);
+  } catch (error) {
+    reportStartupError(error);
   }
 }
 
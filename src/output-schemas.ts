@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { TagSchema, TicketAnalysisSchema } from './types.js';
+
+// Output schemas for the MCP tools. Records passed through from FreeScout are
+// loose objects that declare only the fields clients can rely on, so a new
+// or unexpected API field never turns a successful call into a validation error.
+
+const TicketStatusSchema = z.enum(['active', 'pending', 'closed', 'spam']);
+const PaginationShape = {
+  totalCount: z.number(),
+  page: z.number().optional(),
+  totalPages: z.number().optional(),
+};
+
+// Searches that apply some filters to each returned page. FreeScout's count
+// includes records those filters drop, so it is reported as serverTotalCount
+// instead of totalCount whenever clientSideFilters is set.
+const FilteredPaginationShape = {
+  totalCount: z.number().optional(),
+  serverTotalCount: z.number().optional(),
+  page: z.number().optional(),
+  /** FreeScout's page count, before client-side filtering. */
+  totalPages: z.number().optional(),
+  clientSideFilters: z.array(z.string()).optional(),
+};
+
+const FieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+
+const MessagePreviewSchema = z.object({
+  type: z.string().optional(),
+  date: z.string().optional(),
+  preview: z.string(),
+});
+
+const ConversationRecordSchema = z.looseObject({
+  id: z.number(),
+  number: z.number(),
+  subject: z.string(),
+  status: TicketStatusSchema,
+});
+
+const CustomerRecordSchema = z.looseObject({
+  id: z.number(),
+  email: z.string().nullish(),
+  first_name: z.string().nullish(),
+  last_name: z.string().nullish(),
+});
+
+// Write tools all report success and a human-readable message
+const WriteResultShape = {
+  success: z.boolean(),
+  message: z.string(),
+};
+
+// Ticket tools report the conversation ID and the number shown to customers
+const TicketIdentityShape = {
+  ticketId: z.string(),
+  ticketNumber: z.number(),
+};
+
+const TicketWriteResultShape = {
+  ...WriteResultShape,
+  ...TicketIdentityShape,
+};
+
+// Read tools
+export const GetTicketOutputSchema = ConversationRecordSchema;
+
+export const AnalyzeTicketOutputSchema = TicketAnalysisSchema.extend({
+  // FreeScout accepts some addresses that Zod's email check rejects
+  customerEmail: z.string(),
+});
+
+export const GetTicketContextOutputSchema = z.object({
+  ...TicketIdentityShape,
+  customer: z.object({ name: z.string(), email: z.string() }),
+  subject: z.string(),
+  status: TicketStatusSchema,
+  customFields: z.array(z.object({ name: z.string(), value: z.string().nullable() })),
+  issueDescription: z.string(),
+  customerMessages: z.array(z.object({ date: z.string(), content: z.string() })),
+  teamMessages: z.array(z.object({ date: z.string(), content: z.string() })),
+  analysis: z.object({
+    isBug: z.boolean(),
+    isThirdPartyIssue: z.boolean(),
+    testedByTeam: z.boolean(),
+    rootCause: z.string().optional(),
+  }),
+});
+
+export const SearchTicketsOutputSchema = z.object({
+  conversations: z.array(
+    ConversationRecordSchema.extend({ lastMessage: MessagePreviewSchema.optional() })
+  ),
+  ...FilteredPaginationShape,
+  /** Pass back as `cursor` to continue the search. */
+  nextCursor: z.string().optional(),
+});
+
+export const GetMailboxesOutputSchema = z.object({
+  mailboxes: z.array(z.looseObject({ id: z.number(), name: z.string().optional() })),
+});
+
+export const GetCustomerOutputSchema = CustomerRecordSchema;
+
+export const SearchCustomersOutputSchema = z.object({
+  customers: z.array(CustomerRecordSchema),
+  ...FilteredPaginationShape,
+});
+
+export const GetCustomerHistoryOutputSchema = z.object({
+  customer: z.object({
+    customerId: z.number().optional(),
+    customerEmail: z.string().optional(),
+  }),
+  conversations: z.array(
+    z.object({
+      ...TicketIdentityShape,
+      subject: z.string(),
+      status: TicketStatusSchema,
+      createdAt: z.string().optional(),
+      updatedAt: z.string().optional(),
+      assigneeId: z.number().nullable(),
+      lastMessage: MessagePreviewSchema.nullable(),
+    })
+  ),
+  totalCount: z.number(),
+  truncated: z.boolean(),
+});
+
+export const ListTagsOutputSchema = z.object({
+  tags: z.array(TagSchema.loose()),
+  ...PaginationShape,
+});
+
+export const GetTicketTagsOutputSchema = z.object({
+  ...TicketIdentityShape,
+  tags: z.array(z.string()),
+});
+
+export const GetCustomFieldsOutputSchema = z.object({
+  mailboxId: z.number(),
+  fields: z.array(z.looseObject({ id: z.number(), name: z.string(), type: z.string() })),
+});
+
+export const GetAttachmentOutputSchema = z.object({
+  ...TicketIdentityShape,
+  attachmentId: z.number(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  kind: z.enum(['text', 'image', 'binary']),
+  /** Text only: whether the content was cut at `maxBytes`. */
+  truncated: z.boolean().optional(),
+});
+
+export const ListUsersOutputSchema = z.object({
+  users: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      email: z.string(),
+      role: z.string().optional(),
+    })
+  ),
+});
+
+export const ListDraftsOutputSchema = z.object({
+  ...TicketIdentityShape,
+  drafts: z.array(
+    z.object({
+      id: z.number(),
+      createdAt: z.string().optional(),
+      createdByUserId: z.number().nullable(),
+      to: z.array(z.string()),
+      cc: z.array(z.string()),
+      bcc: z.array(z.string()),
+      body: z.string(),
+      attachmentIds: z.array(z.number()),
+    })
+  ),
+});
+
+// Write tools
+export const TicketWriteOutputSchema = z.object(TicketWriteResultShape);
+
+export const AddNoteOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  attachmentIds: z.array(z.number()),
+});
+
+export const CreateDraftReplyOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  draftId: z.number(),
+  attachmentIds: z.array(z.number()),
+});
+
+export const UpdateCustomerOutputSchema = z.object({
+  ...WriteResultShape,
+  customerId: z.number(),
+  updatedFields: z.array(z.string()),
+});
+
+export const CreateTicketOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  draft: z.boolean(),
+  /** Set when the ticket emailed the customer; false when the client could not confirm. */
+  confirmed: z.boolean().optional(),
+});
+
+export const UpdateTicketTagsOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  tags: z.array(z.string()),
+});
+
+export const SetCustomFieldsOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  updatedFields: z.array(z.string()),
+});
+
+// Send tools also return `success: false` when the user declines
+export const SendReplyOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  threadId: z.number().optional(),
+  confirmed: z.boolean().optional(),
+  attachmentIds: z.array(z.number()).optional(),
+});
+
+export const DraftWriteOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  draftId: z.number(),
+});
+
+export const MergeTicketsOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  mergedTicketId: z.string(),
+  mergedTicketNumber: z.number(),
+});
+
+export const TicketChangesOutputSchema = z.object({
+  ...TicketWriteResultShape,
+  changes: z.array(FieldChangeSchema),
+});
+
+const BulkTargetShape = {
+  ...TicketIdentityShape,
+  subject: z.string().optional(),
+  status: z.string().optional(),
+};
+
+// Dry runs list `tickets`; applied runs list per-ticket `results` and totals
+export const BulkUpdateOutputSchema = z.object({
+  ...WriteResultShape,
+  dryRun: z.boolean(),
+  changes: z.object({
+    status: TicketStatusSchema.optional(),
+    assignTo: z.number().optional(),
+    addTags: z.array(z.string()).optional(),
+    removeTags: z.array(z.string()).optional(),
+    note: z.string().optional(),
+  }),
+  tickets: z.array(z.object(BulkTargetShape)).optional(),
+  results: z
+    .array(
+      z.object({
+        ...BulkTargetShape,
+        success: z.boolean(),
+        applied: z.array(z.string()),
+        error: z.string().optional(),
+      })
+    )
+    .optional(),
+  succeeded: z.number().optional(),
+  failed: z.number().optional(),
+  truncated: z.boolean(),
+});
@@ -0,0 +1,129 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+export const ToolPolicyRulesSchema = z
+  .object({
+    readOnly: z.boolean().optional(),
+    disabledTools: z.array(z.string().min(1)).optional(),
+    allowedStatuses: z.array(z.enum(['active', 'pending', 'closed', 'spam'])).optional(),
+    allowedMailboxes: z.array(z.number().int().positive()).min(1).optional(),
+  })
+  .strict();
+
+export type ToolPolicyRules = z.infer<typeof ToolPolicyRulesSchema>;
+
+/**
+ * Reads the policy from `FREESCOUT_POLICY_FILE` (a JSON file of
+ * {@link ToolPolicyRules}) and `FREESCOUT_READ_ONLY`. The env flag can only
+ * tighten the file: it turns read-only mode on but never off.
+ *
+ * @param toolNames Every tool the server can register. A disabled tool not
+ *   among them is rejected, so a misspelled name cannot leave a tool enabled.
+ */
+export function loadToolPolicyRules(
+  env: NodeJS.ProcessEnv,
+  toolNames: readonly string[]
+): ToolPolicyRules {
+  const path = env.FREESCOUT_POLICY_FILE?.trim();
+  let rules: ToolPolicyRules = {};
+
+  if (path) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Unable to read FREESCOUT_POLICY_FILE (${path}): ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+
+    const parsed = ToolPolicyRulesSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid FREESCOUT_POLICY_FILE (${path}): ${parsed.error.issues
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; ')}`
+      );
+    }
+    rules = parsed.data;
+
+    const unknown = rules.disabledTools?.filter((name) => !toolNames.includes(name)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(
+        `Invalid FREESCOUT_POLICY_FILE (${path}): disabledTools: unknown tool ${unknown.map((name) => `"${name}"`).join(', ')}`
+      );
+    }
+  }
+
+  if (env.FREESCOUT_READ_ONLY === 'true') {
+    rules = { ...rules, readOnly: true };
+  }
+
+  return rules;
+}
+
+/**
+ * Decides which tools are registered and which changes their handlers may
+ * make. Rules that are not set allow everything.
+ */
+export class ToolPolicy {
+  constructor(private readonly rules: ToolPolicyRules = {}) {}
+
+  get restrictsMailboxes(): boolean {
+    return this.rules.allowedMailboxes !== undefined;
+  }
+
+  /**
+   * Read-only mode keeps only tools annotated with `readOnlyHint: true`, so a
+   * tool without annotations counts as one that writes.
+   */
+  allowsTool(name: string, annotations: { readOnlyHint?: boolean } = {}): boolean {
+    if (this.rules.readOnly && annotations.readOnlyHint !== true) {
+      return false;
+    }
+
+    return !this.rules.disabledTools?.includes(name);
+  }
+
+  /**
+   * Guards tools that can make the same change as a disabled one, such as
+   * bulk updates adding notes when `freescout_add_note` is disabled.
+   *
+   * @param action What is being attempted, e.g. `adding notes`.
+   */
+  assertToolEnabled(name: string, action: string): void {
+    if (this.rules.disabledTools?.includes(name)) {
+      throw new Error(`Policy does not allow ${action} because ${name} is disabled`);
+    }
+  }
+
+  assertStatus(status: string | undefined): void {
+    const allowed = this.rules.allowedStatuses;
+    if (status === undefined || !allowed) {
+      return;
+    }
+
+    if (!allowed.includes(status as (typeof allowed)[number])) {
+      throw new Error(
+        `Policy does not allow setting status "${status}". Allowed statuses: ${allowed.join(', ') || '(none)'}`
+      );
+    }
+  }
+
+  /**
+   * @param action What is being attempted, e.g. `changes to ticket #123`.
+   */
+  assertMailbox(mailboxId: number | undefined, action: string): void {
+    const allowed = this.rules.allowedMailboxes;
+    if (!allowed) {
+      return;
+    }
+
+    if (mailboxId === undefined || !allowed.includes(mailboxId)) {
+      throw new Error(
+        `Policy does not allow ${action} (mailbox ${mailboxId ?? 'unknown'}). Allowed mailboxes: ${allowed.join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { completable, type GetPromptResult, type McpServer } from '@modelcontextprotocol/server';
+import { z } from 'zod';
+import { listMailboxes, type FreeScoutAPI } from './freescout-api.js';
+import type { TicketAnalyzer } from './ticket-analyzer.js';
+import { buildTicketContext } from './ticket-context.js';
+
+export const TRIAGE_QUEUE_LIMIT = 20;
+export const REPLY_TONES = ['friendly', 'formal', 'concise', 'empathetic'] as const;
+
+type PromptApiPort = Pick<
+  FreeScoutAPI,
+  'getConversation' | 'getMailboxes' | 'resolveTicket' | 'searchConversations'
+>;
+type PromptAnalyzerPort = Pick<TicketAnalyzer, 'analyzeConversation' | 'stripHtml'>;
+
+const startsWith = (values: Array<number | string>, value: string) =>
+  [...new Set(values.map(String))].filter((candidate) => candidate.startsWith(value));
+
+const userMessage = (text: string): GetPromptResult['messages'][number] => ({
+  role: 'user',
+  content: { type: 'text', text },
+});
+
+const jsonBlock = (label: string, data: unknown) =>
+  userMessage(`${label}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+
+/**
+ * Registers prompts for the common support workflows. Each prompt embeds the
+ * ticket data it needs and names the tools to call next.
+ *
+ * @param canUseTool Whether a tool is registered on this server, so prompts
+ *   never point the model at a write tool that read-only mode has removed.
+ */
+export function registerPrompts(
+  server: McpServer,
+  api: PromptApiPort,
+  analyzer: PromptAnalyzerPort,
+  canUseTool: (name: string) => boolean
+): void {
+  const recentActiveTicketIds = async () =>
+    (
+      (await api.searchConversations({ status: 'active', pageSize: TRIAGE_QUEUE_LIMIT }))._embedded
+        ?.conversations || []
+    ).map((conversation) => conversation.id);
+  const completeTicket = async (value: string) => startsWith(await recentActiveTicketIds(), value);
+
+  const loadContext = async (ticket: string) => {
+    const resolved = await api.resolveTicket(ticket);
+    const ticketId = resolved.id;
+    const conversation = resolved.conversation ?? (await api.getConversation(ticketId, true));
+    return { conversation, context: buildTicketContext(ticketId, conversation, analyzer) };
+  };
+
+  server.registerPrompt(
+    'freescout_triage_queue',
+    {
+      title: 'Triage Unassigned Tickets',
+      description:
+        'Review unassigned active tickets and propose an assignee, status, and tags for each',
+      argsSchema: z.object({
+        mailbox: completable(
+          z.string().describe('Mailbox ID to triage (default: all mailboxes)'),
+          async (value) =>
+            startsWith(
+              listMailboxes(await api.getMailboxes()).map((mailbox) => mailbox.id),
+              value
+            )
+        ).optional(),
+      }),
+    },
+    async ({ mailbox }) => {
+      const mailboxId = mailbox ? Number(mailbox) : undefined;
+      if (mailboxId !== undefined && (!Number.isInteger(mailboxId) || mailboxId <= 0)) {
+        throw new Error(`Invalid mailbox "${mailbox}": expected a numeric FreeScout ID`);
+      }
+
+      const queue = await api.searchConversations({
+        assignee: 'unassigned',
+        status: 'active',
+        mailboxId,
+        pageSize: TRIAGE_QUEUE_LIMIT,
+      });
+      const tickets = (queue._embedded?.conversations || []).map((conversation) => ({
+        ticketId: conversation.id,
+        number: conversation.number,
+        subject: conversation.subject,
+        customer: conversation._embedded?.customer?.email,
+        createdAt: conversation.created_at,
+        updatedAt: conversation.updated_at,
+      }));
+      const canUpdate = canUseTool('freescout_bulk_update');
+
+      const steps = [
+        `Triage the unassigned active tickets${mailboxId ? ` in mailbox ${mailboxId}` : ''} listed below.`,
+        '',
+        '1. Call `freescout_get_ticket_context` for any ticket whose subject does not make the request clear.',
+        '2. Call `freescout_list_users` to see who can take each ticket.',
+        '3. Present a table with the ticket number, a one-line summary, urgency, and your proposed assignee, status, and tags.',
+        canUpdate
+          ? '4. Once I approve the plan, apply it with `freescout_bulk_update`: run it with `dryRun: true` first, then again with `dryRun: false`. Use `freescout_update_ticket` for one-off changes.'
+          : '4. Do not change any tickets; this server cannot make updates, so I will apply the plan myself.',
+      ];
+
+      return {
+        description: `Triage ${tickets.length} unassigned ticket${tickets.length === 1 ? '' : 's'}`,
+        messages: [
+          userMessage(steps.join('\n')),
+          jsonBlock(
+            `Unassigned active tickets (${queue.page?.total_elements ?? tickets.length} total, showing up to ${TRIAGE_QUEUE_LIMIT})`,
+            tickets
+          ),
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'freescout_draft_reply',
+    {
+      title: 'Draft a Customer Reply',
+      description: 'Write a reply to a ticket in a chosen tone and language, saved as a draft',
+      argsSchema: z.object({
+        ticket: completable(z.string().describe('Ticket ID, #number, or URL'), completeTicket),
+        tone: completable(
+          z.string().describe(`Tone of the reply: ${REPLY_TONES.join(', ')} (default: friendly)`),
+          (value) => REPLY_TONES.filter((tone) => tone.startsWith(value))
+        ).optional(),
+        language: z
+          .string()
+          .optional()
+          .describe("Language to reply in (default: the customer's language)"),
+      }),
+    },
+    async ({ ticket, tone, language }) => {
+      const { conversation, context } = await loadContext(ticket);
+      const canDraft = canUseTool('freescout_create_draft_reply');
+
+      const steps = [
+        `Draft a reply to the customer on ticket #${conversation.number} ("${conversation.subject}").`,
+        '',
+        `- Tone: ${tone || 'friendly'}.`,
+        `- Language: ${language || 'the same language the customer wrote in'}.`,
+        "- Answer every question in the customer's latest message, and build on what the team has already said rather than repeating it.",
+        '- If something is unclear, call `freescout_get_customer_history` or `freescout_get_ticket` for more detail before writing.',
+        canDraft
+          ? `- Save the reply with \`freescout_create_draft_reply\` (ticket "${context.ticketId}") so the team can review it before sending, then show me the draft.`
+          : '- This server cannot save drafts, so show me the reply text instead.',
+      ];
+
+      return {
+        description: `Draft a reply to ticket #${conversation.number}`,
+        messages: [
+          userMessage(steps.join('\n')),
+          jsonBlock('Ticket context (from freescout_get_ticket_context)', context),
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'freescout_bug_summary',
+    {
+      title: 'Summarize a Bug Report',
+      description: 'Turn a ticket into an internal bug summary for the engineering team',
+      argsSchema: z.object({
+        ticket: completable(z.string().describe('Ticket ID, #number, or URL'), completeTicket),
+      }),
+    },
+    async ({ ticket }) => {
+      const { conversation, context } = await loadContext(ticket);
+      const analysis = analyzer.analyzeConversation(conversation);
+      const canNote = canUseTool('freescout_add_note');
+
+      const steps = [
+        `Write an internal bug summary for ticket #${conversation.number} ("${conversation.subject}").`,
+        '',
+        'Use these sections: Title, Environment (from the custom fields), Steps to reproduce, Expected result, Actual result, Error messages, and Customer impact.',
+        'Mark anything the ticket does not state as "unknown" instead of guessing. If the analysis says this is not a bug, say so first and explain why.',
+        canNote
+          ? `When I confirm the summary, add it to the ticket with \`freescout_add_note\` (ticket "${context.ticketId}").`
+          : 'Show me the summary; this server cannot add notes to the ticket.',
+      ];
+
+      return {
+        description: `Summarize ticket #${conversation.number} as a bug report`,
+        messages: [
+          userMessage(steps.join('\n')),
+          jsonBlock('Ticket context (from freescout_get_ticket_context)', {
+            ...context,
+            errorMessages: analysis.errorMessages,
+            codeSnippets: analysis.codeSnippets,
+          }),
+        ],
+      };
+    }
+  );
+}
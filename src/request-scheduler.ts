@@ -0,0 +1,192 @@
+export const DEFAULT_MAX_CONCURRENCY = 5;
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+export interface RequestSchedulerOptions {
+  /** Requests allowed in flight at once. */
+  maxConcurrency?: number;
+  /** Sustained request rate. `0` turns the rate limit off. */
+  requestsPerSecond?: number;
+  /** Requests that may start back to back after a quiet period (default: one second's worth). */
+  burst?: number;
+  /** Receives debug messages about queueing and Retry-After pauses. */
+  log?: (message: string) => void;
+}
+
+export interface RequestSchedulerState {
+  active: number;
+  queued: number;
+  maxConcurrency: number;
+  tokens: number;
+  burst: number;
+  /** Milliseconds until a Retry-After pause ends, or 0. */
+  pausedForMs: number;
+}
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date. Returns
+ * the delay in milliseconds, capped at {@link MAX_RETRY_AFTER_MS}.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const delay = /^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed) - now;
+
+  return Number.isFinite(delay) ? Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+/**
+ * Starts FreeScout requests in order, with at most `maxConcurrency` in
+ * flight and a token bucket that holds the sustained rate to
+ * `requestsPerSecond`. A Retry-After pause holds every queued request, so a
+ * rate-limited instance is not hit again until it asked to be.
+ */
+export class RequestScheduler {
+  private readonly maxConcurrency: number;
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly log?: (message: string) => void;
+  private readonly queue: Array<() => void> = [];
+  private active = 0;
+  private tokens: number;
+  private refilledAt: number;
+  private pausedUntil = 0;
+  private wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    options: RequestSchedulerOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+    this.requestsPerSecond = Math.max(0, options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+    this.burst = Math.max(1, options.burst ?? Math.ceil(this.requestsPerSecond));
+    this.log = options.log;
+    this.tokens = this.burst;
+    this.refilledAt = this.now();
+  }
+
+  get state(): RequestSchedulerState {
+    this.refill();
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrency: this.maxConcurrency,
+      tokens: Math.floor(this.tokens * 10) / 10,
+      burst: this.burst,
+      pausedForMs: Math.max(0, this.pausedUntil - this.now()),
+    };
+  }
+
+  /**
+   * Runs `task` once a slot is free. Aborting `signal` while the task is
+   * still queued removes it from the queue and rejects with the abort reason.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(start);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.queue.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.drain();
+      if (this.queue.includes(start)) {
+        this.debug('Request queued');
+      }
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /** Holds every request that has not started yet for `ms` milliseconds. */
+  pause(ms: number): void {
+    const until = this.now() + ms;
+    if (until <= this.pausedUntil) {
+      return;
+    }
+
+    this.pausedUntil = until;
+    this.debug(`Pausing requests for ${Math.round(ms)}ms (Retry-After)`);
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrency) {
+      const wait = this.waitMs();
+      if (wait > 0) {
+        this.wakeAfter(wait);
+        return;
+      }
+
+      if (this.requestsPerSecond > 0) {
+        this.tokens -= 1;
+      }
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  private waitMs(): number {
+    const paused = this.pausedUntil - this.now();
+    if (paused > 0) {
+      return paused;
+    }
+
+    if (this.requestsPerSecond === 0) {
+      return 0;
+    }
+
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.requestsPerSecond
+    );
+    this.refilledAt = now;
+  }
+
+  private wakeAfter(ms: number): void {
+    if (this.wakeTimer) {
+      return;
+    }
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = undefined;
+      this.drain();
+    }, ms);
+  }
+
+  private debug(message: string): void {
+    if (!this.log) {
+      return;
+    }
+
+    const state = this.state;
+    this.log(
+      `${message} (active ${state.active}/${state.maxConcurrency}, queued ${state.queued}, tokens ${state.tokens}/${state.burst}${state.pausedForMs > 0 ? `, paused ${state.pausedForMs}ms` : ''})`
+    );
+  }
+}
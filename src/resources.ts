@@ -0,0 +1,369 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+  type ReadResourceResult,
+  type Variables,
+} from '@modelcontextprotocol/server';
+import { listMailboxes, type FreeScoutAPI } from './freescout-api.js';
+import type { TicketAnalyzer } from './ticket-analyzer.js';
+import type {
+  FreeScoutConversation,
+  FreeScoutCustomer,
+  FreeScoutThread,
+  TicketAnalysis,
+} from './types.js';
+
+export const RESOURCE_LIST_LIMIT = 25;
+const RECENT_CUSTOMER_TICKETS = 10;
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+type ResourceApiPort = Pick<
+  FreeScoutAPI,
+  'getConversation' | 'getCustomer' | 'getMailboxes' | 'searchConversations'
+>;
+type ResourceAnalyzerPort = Pick<TicketAnalyzer, 'analyzeConversation' | 'stripHtml'>;
+
+export const conversationUri = (id: number | string) => `freescout://conversation/${id}`;
+export const threadUri = (id: number | string, threadId: number | string) =>
+  `${conversationUri(id)}/thread/${threadId}`;
+export const customerUri = (id: number | string) => `freescout://customer/${id}`;
+export const mailboxUri = (id: number | string) => `freescout://mailbox/${id}`;
+
+function parseId(variables: Variables, name: string): string {
+  const value = variables[name];
+  const id = Array.isArray(value) ? value[0] : value;
+
+  if (!id || !/^\d+$/.test(id)) {
+    throw new Error(`Invalid ${name} "${id ?? ''}": expected a numeric FreeScout ID`);
+  }
+
+  return id;
+}
+
+const completeFrom = (ids: Array<number | undefined>, value: string) =>
+  [...new Set(ids.filter((id): id is number => id !== undefined).map(String))].filter((id) =>
+    id.startsWith(value)
+  );
+
+const markdown = (uri: URL, text: string): ReadResourceResult => ({
+  contents: [{ uri: uri.href, mimeType: MARKDOWN_MIME_TYPE, text }],
+});
+
+const ticketTitle = (conversation: Pick<FreeScoutConversation, 'number' | 'subject'>) =>
+  `#${conversation.number} ${conversation.subject}`;
+
+function customerName(customer: FreeScoutCustomer): string {
+  return `${customer.first_name || ''} ${customer.last_name || ''}`.trim() || customer.email;
+}
+
+function describeThread(thread: FreeScoutThread): string {
+  const type = thread.type === 'customer' ? 'Customer' : thread.type === 'note' ? 'Note' : 'Reply';
+  return thread.state === 'draft' ? `Draft ${type.toLowerCase()}` : type;
+}
+
+// Oldest first, so the Markdown reads like the conversation happened
+function chronological(threads: FreeScoutThread[]): FreeScoutThread[] {
+  return [...threads].sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+}
+
+function renderThreadBody(thread: FreeScoutThread, analyzer: ResourceAnalyzerPort): string[] {
+  const lines = [analyzer.stripHtml(thread.body) || '_(empty)_'];
+  const attachments = thread.attachments || [];
+
+  if (attachments.length > 0) {
+    lines.push(
+      '',
+      `Attachments: ${attachments
+        .map((attachment) => `${attachment.file_name} (ID ${attachment.id})`)
+        .join(', ')}`
+    );
+  }
+
+  return lines;
+}
+
+function renderAnalysis(analysis: TicketAnalysis): string[] {
+  const type = analysis.isBug
+    ? 'Bug'
+    : analysis.isThirdPartyIssue
+      ? 'Third-party issue'
+      : 'Question or configuration';
+  const lines = ['## Analysis', '', `- **Type:** ${type}`];
+
+  if (analysis.rootCause) lines.push(`- **Root cause:** ${analysis.rootCause}`);
+  if (analysis.suggestedSolution) {
+    lines.push(`- **Suggested solution:** ${analysis.suggestedSolution}`);
+  }
+  lines.push(`- **Tested by team:** ${analysis.testedByTeam ? 'yes' : 'no'}`);
+  if (analysis.errorMessages.length > 0) {
+    lines.push(
+      '',
+      '### Error messages',
+      '',
+      ...analysis.errorMessages.map((error) => `- ${error}`)
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Renders a ticket, its analysis, and every thread as Markdown that reads
+ * well when a client attaches it as context.
+ */
+export function renderConversationMarkdown(
+  conversation: FreeScoutConversation,
+  analyzer: ResourceAnalyzerPort
+): string {
+  const customer = conversation._embedded?.customer;
+  const tags = (conversation._embedded?.tags || []).map((tag) => tag.name);
+  const lines = [
+    `# ${ticketTitle(conversation)}`,
+    '',
+    `- **Ticket ID:** ${conversation.id}`,
+    `- **Status:** ${conversation.status}`,
+  ];
+
+  if (conversation.mailbox_id !== undefined) {
+    lines.push(
+      `- **Mailbox:** [${conversation.mailbox_id}](${mailboxUri(conversation.mailbox_id)})`
+    );
+  }
+  if (customer) {
+    lines.push(`- **Customer:** [${customerName(customer)}](${customerUri(customer.id)})`);
+  }
+  lines.push(
+    `- **Assignee:** ${conversation.user_id ? `user ${conversation.user_id}` : 'unassigned'}`
+  );
+  if (conversation.created_at) lines.push(`- **Created:** ${conversation.created_at}`);
+  if (conversation.updated_at) lines.push(`- **Updated:** ${conversation.updated_at}`);
+  if (tags.length > 0) lines.push(`- **Tags:** ${tags.join(', ')}`);
+  for (const field of conversation.custom_fields || []) {
+    lines.push(`- **${field.name}:** ${field.text ?? field.value ?? ''}`);
+  }
+
+  lines.push('', ...renderAnalysis(analyzer.analyzeConversation(conversation)), '', '## Threads');
+
+  for (const thread of chronological(conversation._embedded?.threads || [])) {
+    lines.push(
+      '',
+      `### ${describeThread(thread)}${thread.created_at ? ` · ${thread.created_at}` : ''} ([thread ${thread.id}](${threadUri(conversation.id, thread.id)}))`,
+      '',
+      ...renderThreadBody(thread, analyzer)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Exposes tickets, threads, customers, and mailboxes as resource templates so
+ * clients can attach them as context or browse them.
+ */
+export function registerResources(
+  server: McpServer,
+  api: ResourceApiPort,
+  analyzer: ResourceAnalyzerPort
+): void {
+  const recentActiveTickets = async () =>
+    (await api.searchConversations({ status: 'active', pageSize: RESOURCE_LIST_LIMIT }))._embedded
+      ?.conversations || [];
+  const mailboxes = async () => listMailboxes(await api.getMailboxes());
+
+  server.registerResource(
+    'freescout_conversation',
+    new ResourceTemplate('freescout://conversation/{id}', {
+      list: async () => ({
+        resources: (await recentActiveTickets()).map((conversation) => ({
+          uri: conversationUri(conversation.id),
+          name: ticketTitle(conversation),
+          mimeType: MARKDOWN_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        id: async (value) =>
+          completeFrom(
+            (await recentActiveTickets()).map((conversation) => conversation.id),
+            value
+          ),
+      },
+    }),
+    {
+      title: 'FreeScout Ticket',
+      description: 'A ticket with its analysis and every thread, rendered as Markdown',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const conversation = await api.getConversation(parseId(variables, 'id'), true);
+      return markdown(uri, renderConversationMarkdown(conversation, analyzer));
+    }
+  );
+
+  server.registerResource(
+    'freescout_thread',
+    new ResourceTemplate('freescout://conversation/{id}/thread/{threadId}', {
+      list: undefined,
+      complete: {
+        id: async (value) =>
+          completeFrom(
+            (await recentActiveTickets()).map((conversation) => conversation.id),
+            value
+          ),
+        threadId: async (value, context) => {
+          const id = context?.arguments?.id;
+          if (!id || !/^\d+$/.test(id)) {
+            return [];
+          }
+
+          const conversation = await api.getConversation(id, true);
+          return completeFrom(
+            (conversation._embedded?.threads || []).map((thread) => thread.id),
+            value
+          );
+        },
+      },
+    }),
+    {
+      title: 'FreeScout Thread',
+      description: 'A single message, reply, or note on a ticket, rendered as Markdown',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = parseId(variables, 'id');
+      const threadId = Number(parseId(variables, 'threadId'));
+      const conversation = await api.getConversation(id, true);
+      const thread = (conversation._embedded?.threads || []).find(
+        (candidate) => candidate.id === threadId
+      );
+
+      if (!thread) {
+        throw new Error(`Thread ${threadId} not found on ticket #${conversation.number}`);
+      }
+
+      const lines = [
+        `# ${describeThread(thread)} on [${ticketTitle(conversation)}](${conversationUri(id)})`,
+        '',
+        `- **Thread ID:** ${thread.id}`,
+      ];
+      if (thread.created_at) lines.push(`- **Date:** ${thread.created_at}`);
+      if (thread.to?.length) lines.push(`- **To:** ${thread.to.join(', ')}`);
+      if (thread.cc?.length) lines.push(`- **CC:** ${thread.cc.join(', ')}`);
+      lines.push('', ...renderThreadBody(thread, analyzer));
+
+      return markdown(uri, lines.join('\n'));
+    }
+  );
+
+  server.registerResource(
+    'freescout_customer',
+    new ResourceTemplate('freescout://customer/{id}', {
+      list: undefined,
+      complete: {
+        id: async (value) =>
+          completeFrom(
+            (await recentActiveTickets()).map(
+              (conversation) => conversation.customer_id ?? conversation._embedded?.customer?.id
+            ),
+            value
+          ),
+      },
+    }),
+    {
+      title: 'FreeScout Customer',
+      description: 'A customer profile and their most recent tickets, rendered as Markdown',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = Number(parseId(variables, 'id'));
+      const [customer, history] = await Promise.all([
+        api.getCustomer(id),
+        api.searchConversations({
+          customerId: id,
+          status: 'all',
+          pageSize: RECENT_CUSTOMER_TICKETS,
+        }),
+      ]);
+      const tickets = history._embedded?.conversations || [];
+      const lines = [
+        `# ${customerName(customer)}`,
+        '',
+        `- **Customer ID:** ${customer.id}`,
+        `- **Email:** ${customer.email}`,
+      ];
+
+      if (customer.company) lines.push(`- **Company:** ${customer.company}`);
+      if (customer.job_title) lines.push(`- **Job title:** ${customer.job_title}`);
+      if (customer.phone) lines.push(`- **Phone:** ${customer.phone}`);
+      lines.push('', '## Recent tickets', '');
+      lines.push(
+        ...(tickets.length > 0
+          ? tickets.map(
+              (conversation) =>
+                `- [${ticketTitle(conversation)}](${conversationUri(conversation.id)}) · ${conversation.status}${conversation.updated_at ? ` · updated ${conversation.updated_at}` : ''}`
+            )
+          : ['_No tickets found._'])
+      );
+
+      return markdown(uri, lines.join('\n'));
+    }
+  );
+
+  server.registerResource(
+    'freescout_mailbox',
+    new ResourceTemplate('freescout://mailbox/{id}', {
+      list: async () => ({
+        resources: (await mailboxes()).map((mailbox) => ({
+          uri: mailboxUri(mailbox.id),
+          name: mailbox.name ?? `Mailbox ${mailbox.id}`,
+          mimeType: MARKDOWN_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        id: async (value) =>
+          completeFrom(
+            (await mailboxes()).map((mailbox) => mailbox.id),
+            value
+          ),
+      },
+    }),
+    {
+      title: 'FreeScout Mailbox',
+      description: 'A mailbox and its recent active tickets, rendered as Markdown',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = Number(parseId(variables, 'id'));
+      const mailbox = (await mailboxes()).find((candidate) => candidate.id === id);
+
+      if (!mailbox) {
+        throw new Error(`Mailbox ${id} not found`);
+      }
+
+      const active = await api.searchConversations({
+        mailboxId: id,
+        status: 'active',
+        pageSize: RESOURCE_LIST_LIMIT,
+      });
+      const tickets = active._embedded?.conversations || [];
+      const lines = [`# ${mailbox.name ?? `Mailbox ${id}`}`, '', `- **Mailbox ID:** ${id}`];
+
+      if (mailbox.email) lines.push(`- **Email:** ${mailbox.email}`);
+      lines.push(
+        `- **Active tickets:** ${active.page?.total_elements ?? tickets.length}`,
+        '',
+        '## Recent active tickets',
+        ''
+      );
+      lines.push(
+        ...(tickets.length > 0
+          ? tickets.map(
+              (conversation) =>
+                `- [${ticketTitle(conversation)}](${conversationUri(conversation.id)})${conversation.updated_at ? ` · updated ${conversation.updated_at}` : ''}`
+            )
+          : ['_No active tickets._'])
+      );
+
+      return markdown(uri, lines.join('\n'));
+    }
+  );
+}
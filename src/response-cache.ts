@@ -0,0 +1,124 @@
+export const DEFAULT_CACHE_TTL_MS = 30_000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+export interface ResponseCacheOptions {
+  /** How long a response is served without asking FreeScout again. */
+  ttlMs?: number;
+  /** Least recently used responses are evicted beyond this many entries. */
+  maxEntries?: number;
+}
+
+/** Validators FreeScout sent with a response, replayed when revalidating it. */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface CacheEntry<T> extends CacheValidators {
+  value: T;
+  fresh: boolean;
+}
+
+interface StoredEntry extends CacheValidators {
+  value: unknown;
+  tags: string[];
+  storedAt: number;
+}
+
+/**
+ * An in-memory TTL and LRU cache for FreeScout GET responses. Entries carry
+ * tags (e.g. `conversation:123`) so writes can invalidate everything they
+ * affect. Stale entries are kept until evicted so callers can revalidate them
+ * with a conditional request instead of downloading them again.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, StoredEntry>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private generation = 0;
+
+  constructor(
+    options: ResponseCacheOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Increases on every invalidation. A load that started before an
+   * invalidation passes the generation it saw to {@link set}, so a response
+   * read before a write is never stored after it.
+   */
+  get currentGeneration(): number {
+    return this.generation;
+  }
+
+  /** Returns a copy of the entry, fresh or stale, and marks it recently used. */
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return {
+      value: structuredClone(entry.value) as T,
+      fresh: this.now() - entry.storedAt < this.ttlMs,
+      etag: entry.etag,
+      lastModified: entry.lastModified,
+    };
+  }
+
+  set(
+    key: string,
+    value: unknown,
+    options: CacheValidators & { tags: string[]; generation: number }
+  ): void {
+    if (options.generation !== this.generation || this.ttlMs <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: structuredClone(value),
+      tags: options.tags,
+      storedAt: this.now(),
+      etag: options.etag,
+      lastModified: options.lastModified,
+    });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Marks an entry fresh again after FreeScout answered `304 Not Modified`. */
+  touch(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.storedAt = this.now();
+    }
+  }
+
+  invalidate(tag: string): void {
+    this.generation++;
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.includes(tag)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+  }
+}
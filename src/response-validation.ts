@@ -0,0 +1,98 @@
+import type { z } from 'zod';
+import { FreeScoutResponseValidationError, type ResponseDrift } from './errors.js';
+
+export const RESPONSE_VALIDATION_MODES = ['strict', 'warn', 'off'] as const;
+export type ResponseValidationMode = (typeof RESPONSE_VALIDATION_MODES)[number];
+export const DEFAULT_RESPONSE_VALIDATION_MODE: ResponseValidationMode = 'warn';
+
+export function parseResponseValidationMode(value: string | undefined): ResponseValidationMode {
+  const mode = value?.trim().toLowerCase();
+  if (!mode) {
+    return DEFAULT_RESPONSE_VALIDATION_MODE;
+  }
+
+  if (!RESPONSE_VALIDATION_MODES.includes(mode as ResponseValidationMode)) {
+    throw new Error(
+      `FREESCOUT_RESPONSE_VALIDATION must be one of: ${RESPONSE_VALIDATION_MODES.join(', ')}`
+    );
+  }
+  return mode as ResponseValidationMode;
+}
+
+/** Formats a Zod issue path as `_embedded.threads[0].type`. */
+function formatPath(path: PropertyKey[]): string {
+  return (
+    path
+      .map((segment, index) =>
+        typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${String(segment)}`
+      )
+      .join('') || '(root)'
+  );
+}
+
+/**
+ * Checks FreeScout responses against the schemas in `types.ts`. The response
+ * is returned exactly as FreeScout sent it, so fields the schemas do not
+ * declare pass through. Mismatches throw in `strict` mode and are logged in
+ * `warn` mode, once per endpoint and field so a drifted list does not flood
+ * the log.
+ */
+export class ResponseValidator {
+  private readonly reported = new Set<string>();
+
+  constructor(
+    readonly mode: ResponseValidationMode = DEFAULT_RESPONSE_VALIDATION_MODE,
+    private readonly log: (message: string) => void = (message) =>
+      console.error(`[FreeScout API] ${message}`)
+  ) {}
+
+  validate<S extends z.ZodType>(
+    schema: S,
+    data: unknown,
+    request: { method: string; endpoint: string }
+  ): z.infer<S> {
+    if (this.mode === 'off') {
+      return data as z.infer<S>;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return data as z.infer<S>;
+    }
+
+    const drift: ResponseDrift[] = result.error.issues.map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    }));
+    const summary = drift.map((entry) => `${entry.path}: ${entry.message}`).join('; ');
+
+    if (this.mode === 'strict') {
+      throw new FreeScoutResponseValidationError(
+        `FreeScout response for ${request.method} ${request.endpoint} does not match the expected shape: ${summary}`,
+        { ...request, body: data },
+        drift
+      );
+    }
+
+    // IDs in the endpoint and indices in the path vary per call
+    const endpoint = request.endpoint.replace(/\/\d+/g, '/{id}').replace(/\?.*$/, '');
+    const fresh = drift.filter((entry) => {
+      const key = `${request.method} ${endpoint} ${entry.path.replace(/\[\d+\]/g, '[]')}`;
+      if (this.reported.has(key)) {
+        return false;
+      }
+      this.reported.add(key);
+      return true;
+    });
+
+    if (fresh.length > 0) {
+      this.log(
+        `Response drift on ${request.method} ${request.endpoint}: ${fresh
+          .map((entry) => `${entry.path}: ${entry.message}`)
+          .join('; ')}`
+      );
+    }
+
+    return data as z.infer<S>;
+  }
+}
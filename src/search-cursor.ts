@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { resolveSearchDates } from './search-filters.js';
+import { SearchFiltersSchema, type SearchFilters } from './types.js';
+
+/** Where a search continues: its filters and the next unread result. */
+export interface SearchPosition {
+  filters: SearchFilters;
+  /** The 1-based page holding the next result. */
+  page: number;
+  /** Results on that page that were already returned. */
+  offset: number;
+}
+
+const SearchCursorSchema = z.object({
+  v: z.literal(1),
+  filters: SearchFiltersSchema.omit({ page: true, includeLastMessage: true }),
+  page: z.number().int().min(1),
+  offset: z.number().int().min(0),
+});
+
+/**
+ * Encodes a search position as an opaque cursor. Clients pass it back
+ * unchanged; the encoding may change between releases. Relative dates are
+ * stored resolved, since a window that moved would shift the stored page.
+ */
+export function encodeSearchCursor(position: SearchPosition): string {
+  const {
+    page: _page,
+    includeLastMessage: _includeLastMessage,
+    ...filters
+  } = resolveSearchDates(position.filters);
+  return Buffer.from(
+    JSON.stringify({ v: 1, filters, page: position.page, offset: position.offset })
+  ).toString('base64url');
+}
+
+export function decodeSearchCursor(cursor: string): SearchPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = undefined;
+  }
+
+  const parsed = SearchCursorSchema.safeParse(decoded);
+  if (!parsed.success) {
+    throw new Error(
+      'Invalid cursor: pass the nextCursor from an earlier freescout_search_tickets result unchanged'
+    );
+  }
+  return { filters: parsed.data.filters, page: parsed.data.page, offset: parsed.data.offset };
+}
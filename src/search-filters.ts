@@ -0,0 +1,138 @@
+import { findLastMessage } from './ticket-context.js';
+import type { FreeScoutConversation, SearchFilters } from './types.js';
+
+/** Search filters FreeScout cannot apply, so they are matched against each returned page. */
+export const CLIENT_SIDE_SEARCH_FILTERS = ['createdBefore', 'updatedBefore', 'waitingOn'] as const;
+export type ClientSideSearchFilter = (typeof CLIENT_SIDE_SEARCH_FILTERS)[number];
+
+/** The client-side filters a search sets. */
+export function clientSideSearchFilters(filters: SearchFilters): ClientSideSearchFilter[] {
+  return CLIENT_SIDE_SEARCH_FILTERS.filter((name) => filters[name] !== undefined);
+}
+
+/** Date filters that accept a relative time such as `7d` as well as an ISO date. */
+const SEARCH_DATE_FILTERS = [
+  'createdSince',
+  'updatedSince',
+  'createdBefore',
+  'updatedBefore',
+] as const;
+
+/**
+ * Parse relative time strings like "7d", "24h", "30m" to ISO date
+ */
+export function parseRelativeTime(relative: string, now = new Date()): string | null {
+  const match = relative.match(/^(\d+)([dhm])$/);
+  if (!match) return null;
+
+  const value = Number.parseInt(match[1], 10);
+  if (!Number.isFinite(value) || value <= 0 || value > 10000) {
+    return null;
+  }
+  const unit = match[2];
+  const date = new Date(now);
+
+  switch (unit) {
+    case 'd':
+      date.setDate(date.getDate() - value);
+      break;
+    case 'h':
+      date.setHours(date.getHours() - value);
+      break;
+    case 'm':
+      date.setMinutes(date.getMinutes() - value);
+      break;
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Pins relative date filters to ISO dates, so every page of a search, and
+ * any continuation of it, covers the same time window.
+ */
+export function resolveSearchDates(filters: SearchFilters, now = new Date()): SearchFilters {
+  const resolved = { ...filters };
+  for (const name of SEARCH_DATE_FILTERS) {
+    const value = filters[name];
+    if (value !== undefined) {
+      resolved[name] = parseRelativeTime(value, now) ?? value;
+    }
+  }
+  return resolved;
+}
+
+/** Client-side filters with their dates resolved to timestamps. */
+export interface ClientSideCriteria {
+  createdBefore?: number;
+  updatedBefore?: number;
+  waitingOn?: SearchFilters['waitingOn'];
+}
+
+/**
+ * The sort to request. Without one, a `*Before` filter sorts oldest first by
+ * the date it compares, so paging can stop once it reaches that date.
+ */
+export function searchSort(filters: SearchFilters): Pick<SearchFilters, 'sortField' | 'sortOrder'> {
+  if (filters.sortField || filters.sortOrder) {
+    return { sortField: filters.sortField, sortOrder: filters.sortOrder };
+  }
+  if (filters.createdBefore !== undefined) {
+    return { sortField: 'createdAt', sortOrder: 'asc' };
+  }
+  if (filters.updatedBefore !== undefined) {
+    return { sortField: 'updatedAt', sortOrder: 'asc' };
+  }
+  return {};
+}
+
+/**
+ * Whether a page sorted oldest first by the date a `*Before` filter compares
+ * ends at or after that date, so no later page can match.
+ */
+export function reachedBeforeLimit(
+  conversations: FreeScoutConversation[],
+  sort: Pick<SearchFilters, 'sortField' | 'sortOrder'>,
+  criteria: ClientSideCriteria
+): boolean {
+  const last = conversations.at(-1);
+  if (!last || sort.sortOrder !== 'asc') {
+    return false;
+  }
+  const [date, limit] =
+    sort.sortField === 'createdAt'
+      ? [last.created_at, criteria.createdBefore]
+      : sort.sortField === 'updatedAt'
+        ? [last.updated_at, criteria.updatedBefore]
+        : [undefined, undefined];
+  return date !== undefined && limit !== undefined && Date.parse(date) >= limit;
+}
+
+/**
+ * Who a ticket waits on: `us` when the latest message is the customer's,
+ * `customer` when it is a team reply. Drafts are not replies yet. Needs the
+ * conversation's embedded threads.
+ */
+export function waitingOn(conversation: FreeScoutConversation): 'us' | 'customer' | undefined {
+  const threads = (conversation._embedded?.threads || []).filter((t) => t.state !== 'draft');
+  const lastMessage = findLastMessage(threads);
+  if (!lastMessage) {
+    return undefined;
+  }
+  return lastMessage.type === 'customer' ? 'us' : 'customer';
+}
+
+/** Tickets without the date a filter compares are left out, since they cannot be shown to match. */
+export function matchesClientSideFilters(
+  conversation: FreeScoutConversation,
+  criteria: ClientSideCriteria
+): boolean {
+  const isBefore = (date: string | undefined, limit: number | undefined) =>
+    limit === undefined || (date !== undefined && Date.parse(date) < limit);
+
+  return (
+    isBefore(conversation.created_at, criteria.createdBefore) &&
+    isBefore(conversation.updated_at, criteria.updatedBefore) &&
+    (criteria.waitingOn === undefined || waitingOn(conversation) === criteria.waitingOn)
+  );
+}
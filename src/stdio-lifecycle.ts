@@ -1,5 +1,3 @@
-import type { StdioServerHandle } from '@modelcontextprotocol/server/stdio';
-
 type ShutdownReason = 'manual' | 'parent-exit' | 'signal';
 type Signal = 'SIGINT' | 'SIGTERM' | 'SIGHUP';
 
@@ -20,13 +18,20 @@ interface WatchdogTimer {
 type SetIntervalFn = (callback: () => void, ms: number) => WatchdogTimer;
 type ClearIntervalFn = (timer: WatchdogTimer) => void;
 
+/** A serving entry that can be shut down, such as the serveStdio or HTTP handle. */
+export interface ClosableHandle {
+  close(): Promise<void>;
+}
+
 interface StdioLifecycleOptions {
-  handle: StdioServerHandle;
+  handle: ClosableHandle;
   processRef?: ProcessLike;
   parentPid?: number;
   env?: NodeJS.ProcessEnv;
   envName?: string;
   watchdogIntervalMs?: number;
+  /** Set to false for long-lived servers that outlive their launcher. */
+  watchParent?: boolean;
   isParentAlive?: ParentLivenessProbe;
   setIntervalFn?: SetIntervalFn;
   clearIntervalFn?: ClearIntervalFn;
@@ -84,9 +89,10 @@ function parentIsAlive(processRef: ProcessLike, parentPid: number): boolean {
 }
 
 /**
- * Closes the stdio serving entry when its launcher disappears or receives a
- * termination signal. It deliberately knows only about the serveStdio handle,
- * not its underlying transport, because serveStdio owns that transport.
+ * Closes the serving entry when its launcher disappears or receives a
+ * termination signal. It deliberately knows only about the serving handle,
+ * not its underlying transport, because the handle owns that transport. The
+ * HTTP entry reuses it so both transports shut down the same way.
  */
 export function installStdioLifecycle(options: StdioLifecycleOptions): StdioLifecycle {
   const processRef = options.processRef ?? (process as unknown as ProcessLike);
@@ -147,7 +153,7 @@ export function installStdioLifecycle(options: StdioLifecycleOptions): StdioLife
     processRef.once(signal, onSignal);
   }
 
-  if (parentPid > 1) {
+  if (options.watchParent !== false && parentPid > 1) {
     watchdog = startParentWatchdog(
       parentPid,
       watchdogIntervalMs,
@@ -26,6 +26,7 @@ export class TicketAnalyzer {
 
     return {
       ticketId: conversation.id.toString(),
+      ticketNumber: conversation.number,
       customerName: customer
         ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim()
         : 'Unknown',
@@ -0,0 +1,90 @@
+import type { TicketAnalyzer } from './ticket-analyzer.js';
+import type { FreeScoutConversation, FreeScoutThread } from './types.js';
+
+const allowedThreadTypes = new Set(['customer', 'message', 'note']);
+type ThreadType = 'customer' | 'message' | 'note';
+
+const isValidThreadType = (type: unknown): type is ThreadType =>
+  typeof type === 'string' && allowedThreadTypes.has(type as ThreadType);
+
+export const hasCreatedAt = (createdAt: unknown): createdAt is string =>
+  typeof createdAt === 'string' && createdAt.length > 0;
+
+export const normalizeThreadBody = (body: unknown) => (typeof body === 'string' ? body : '');
+
+/**
+ * Returns the most recent customer or team message, ignoring internal notes
+ * and threads without a timestamp.
+ */
+export function findLastMessage(threads: FreeScoutThread[]): FreeScoutThread | undefined {
+  return threads
+    .filter((t) => t.type === 'customer' || t.type === 'message')
+    .filter((t) => hasCreatedAt(t.created_at))
+    .sort((a, b) => {
+      const dateA = new Date(a.created_at || 0).getTime();
+      const dateB = new Date(b.created_at || 0).getTime();
+      return dateB - dateA;
+    })[0];
+}
+
+export type TicketContext = ReturnType<typeof buildTicketContext>;
+
+/**
+ * Summarizes a ticket for reply drafting: the customer, custom fields, the
+ * customer's messages, the last few team replies, and the analysis verdict.
+ * Shared by `freescout_get_ticket_context` and the MCP prompts.
+ */
+export function buildTicketContext(
+  ticketId: string,
+  conversation: FreeScoutConversation,
+  analyzer: Pick<TicketAnalyzer, 'analyzeConversation' | 'stripHtml'>
+) {
+  const analysis = analyzer.analyzeConversation(conversation);
+
+  const threads = conversation._embedded?.threads || [];
+  const safeThreads = threads.filter(
+    (t) => isValidThreadType(t.type) && hasCreatedAt(t.created_at)
+  );
+  const customerMessages = safeThreads.filter((t) => t.type === 'customer');
+  const teamMessages = safeThreads.filter((t) => t.type === 'message' || t.type === 'note');
+
+  const context = {
+    ticketId,
+    ticketNumber: conversation.number,
+    customer: {
+      name: analysis.customerName,
+      email: analysis.customerEmail,
+    },
+    subject: conversation.subject,
+    status: conversation.status,
+    customFields: (conversation.custom_fields || []).map((field) => ({
+      name: field.name,
+      value: field.text ?? field.value,
+    })),
+    issueDescription: analysis.issueDescription,
+    customerMessages: customerMessages.map((m) => ({
+      date: m.created_at,
+      content: (() => {
+        const body = normalizeThreadBody(m.body);
+        const stripped = analyzer.stripHtml(body);
+        return stripped.substring(0, 500) + (stripped.length > 500 ? '...' : '');
+      })(),
+    })),
+    teamMessages: teamMessages.slice(-3).map((m) => ({
+      date: m.created_at,
+      content: (() => {
+        const body = normalizeThreadBody(m.body);
+        const stripped = analyzer.stripHtml(body);
+        return stripped.substring(0, 300) + (stripped.length > 300 ? '...' : '');
+      })(),
+    })),
+    analysis: {
+      isBug: analysis.isBug,
+      isThirdPartyIssue: analysis.isThirdPartyIssue,
+      testedByTeam: analysis.testedByTeam,
+      rootCause: analysis.rootCause,
+    },
+  };
+
+  return context;
+}
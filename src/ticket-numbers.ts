@@ -0,0 +1,47 @@
+export const DEFAULT_TICKET_NUMBER_MAX_ENTRIES = 5000;
+
+/**
+ * Remembers which internal conversation ID belongs to which ticket number.
+ * The pairing never changes once a ticket exists, so entries do not expire;
+ * the least recently recorded are dropped beyond `maxEntries`.
+ */
+export class TicketNumberIndex {
+  private readonly idsByNumber = new Map<number, number>();
+  private readonly numbersById = new Map<number, number>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_TICKET_NUMBER_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.idsByNumber.size;
+  }
+
+  idFor(number: number): number | undefined {
+    return this.idsByNumber.get(number);
+  }
+
+  numberFor(id: number): number | undefined {
+    return this.numbersById.get(id);
+  }
+
+  record(id: number, number: number): void {
+    const previousNumber = this.numbersById.get(id);
+    if (previousNumber !== undefined) {
+      this.idsByNumber.delete(previousNumber);
+    }
+
+    const previousId = this.idsByNumber.get(number);
+    if (previousId !== undefined && previousId !== id) {
+      this.numbersById.delete(previousId);
+    }
+
+    this.idsByNumber.delete(number);
+    this.idsByNumber.set(number, id);
+    this.numbersById.set(id, number);
+
+    for (const [oldestNumber, oldestId] of this.idsByNumber) {
+      if (this.idsByNumber.size <= this.maxEntries) break;
+      this.idsByNumber.delete(oldestNumber);
+      this.numbersById.delete(oldestId);
+    }
+  }
+}
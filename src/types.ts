@@ -13,7 +13,14 @@ export const ThreadSchema = z.object({
   id: z.number(),
   type: z.enum(['customer', 'message', 'note']).optional(),
   body: z.string().optional(),
+  state: z.enum(['draft', 'published', 'hidden']).optional(),
   created_by_customer: z.boolean().optional(),
+  created_by: z
+    .object({
+      id: z.number(),
+      type: z.enum(['user', 'customer']),
+    })
+    .optional(),
   created_at: z.string().optional(),
   to: z.array(z.string()).optional(),
   cc: z.array(z.string()).optional(),
@@ -28,6 +35,44 @@ export const CustomerSchema = z.object({
   last_name: z.string().optional(),
   company: z.string().optional(),
   phone: z.string().optional(),
+  job_title: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const UserSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  role: z.string().optional(),
+  job_title: z.string().nullable().optional(),
+});
+
+export const TagSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  color: z.number().nullable().optional(),
+  counter: z.number().optional(),
+});
+
+export const CustomFieldSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.enum(['dropdown', 'single_line', 'multi_line', 'number', 'date']),
+  options: z
+    .union([z.record(z.string(), z.string()), z.array(z.string())])
+    .nullable()
+    .optional(),
+  required: z.boolean().optional(),
+  sort_order: z.number().optional(),
+});
+
+export const ConversationCustomFieldSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  value: z.string().nullable(),
+  text: z.string().nullable().optional(), // Display text, e.g. the dropdown option label
 });
 
 export const ConversationSchema = z.object({
@@ -35,7 +80,7 @@ export const ConversationSchema = z.object({
   number: z.number(),
   subject: z.string(),
   status: z.enum(['active', 'pending', 'closed', 'spam']),
-  state: z.enum(['published', 'deleted']).optional(),
+  state: z.enum(['draft', 'published', 'deleted']).optional(),
   user_id: z.number().nullable().optional(),
   customer_id: z.number().optional(),
   mailbox_id: z.number().optional(),
@@ -44,14 +89,22 @@ export const ConversationSchema = z.object({
   to: z.array(z.string()).optional(),
   cc: z.array(z.string()).optional(),
   bcc: z.array(z.string()).optional(),
+  custom_fields: z.array(ConversationCustomFieldSchema).optional(),
   _embedded: z
     .object({
       threads: z.array(ThreadSchema).optional(),
       customer: CustomerSchema.optional(),
+      tags: z.array(TagSchema).optional(),
     })
     .optional(),
 });
 
+export const MailboxSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  email: z.string().optional(),
+});
+
 export const PageSchema = z.object({
   size: z.number(),
   total_elements: z.number(),
@@ -65,14 +118,28 @@ export const ApiResponseSchema = z.object({
       conversations: z.array(ConversationSchema).optional(),
       threads: z.array(ThreadSchema).optional(),
       customer: CustomerSchema.optional(),
+      customers: z.array(CustomerSchema).optional(),
+      tags: z.array(TagSchema).optional(),
+      custom_fields: z.array(CustomFieldSchema).optional(),
+      users: z.array(UserSchema).optional(),
+      mailboxes: z.array(MailboxSchema).optional(),
     })
     .optional(),
-  data: z.unknown().optional(),
   page: PageSchema.optional(),
 });
 
+// Some FreeScout versions list mailboxes as a bare array
+export const MailboxListSchema = z.union([z.array(MailboxSchema), ApiResponseSchema]);
+
+/**
+ * For write endpoints that answer 204 No Content. Their response body is
+ * never read, so it is not checked.
+ */
+export const NoContentSchema = z.unknown();
+
 export const TicketAnalysisSchema = z.object({
   ticketId: z.string(),
+  ticketNumber: z.number(),
   customerName: z.string(),
   customerEmail: z.string().email(),
   issueDescription: z.string(),
@@ -91,30 +158,116 @@ export const TicketAnalysisSchema = z.object({
 // Search filter schemas
 export const SearchFiltersSchema = z.object({
   textSearch: z.string().optional(),
-  assignee: z.union([z.literal('unassigned'), z.literal('any'), z.number()]).optional(),
+  assignee: z.union([z.literal('unassigned'), z.literal('any'), z.number(), z.string()]).optional(), // User ID, email, or name
   updatedSince: z.string().optional(), // ISO date or relative like "7d", "24h"
   createdSince: z.string().optional(),
+  updatedBefore: z.string().optional(), // Not filterable by FreeScout, applied to each returned page
+  createdBefore: z.string().optional(), // Not filterable by FreeScout, applied to each returned page
   mailboxId: z.number().optional(),
+  folderId: z.number().optional(),
+  customerId: z.number().optional(),
+  customerEmail: z.string().optional(),
+  tags: z.array(z.string()).optional(),
   status: z.enum(['active', 'pending', 'closed', 'spam', 'all']).optional(),
   state: z.enum(['published', 'deleted']).optional(),
+  // Who the ticket waits on, from the type of its latest message. Applied to each returned page.
+  waitingOn: z.enum(['us', 'customer']).optional(),
+  subjectOnly: z.boolean().optional(), // Match textSearch against the subject only
+  sortField: z.enum(['createdAt', 'updatedAt', 'waitingSince', 'number', 'subject']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
   page: z.number().min(1).optional(),
   pageSize: z.number().min(1).max(100).optional(),
   includeLastMessage: z.boolean().optional(), // Include the most recent message for each ticket
 });
 
+// Attachment upload schema: a file under the allow-listed directory or a base64 payload
+export const AttachmentUploadSchema = z.object({
+  path: z.string().optional(),
+  data: z.string().optional(),
+  fileName: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+// Customer schemas
+export const CustomerSearchFiltersSchema = z.object({
+  email: z.string().optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  company: z.string().optional(), // Not filterable by FreeScout, applied to each returned page
+  phone: z.string().optional(),
+  page: z.number().min(1).optional(),
+  pageSize: z.number().min(1).max(100).optional(),
+});
+
+export const CustomerUpdateSchema = z.object({
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  company: z.string().optional(),
+  jobTitle: z.string().optional(),
+});
+
 // TypeScript types inferred from Zod schemas
 export type FreeScoutAttachment = z.infer<typeof AttachmentSchema>;
 export type FreeScoutThread = z.infer<typeof ThreadSchema>;
 export type FreeScoutCustomer = z.infer<typeof CustomerSchema>;
+export type FreeScoutTag = z.infer<typeof TagSchema>;
+export type FreeScoutUser = z.infer<typeof UserSchema>;
+export type FreeScoutCustomField = z.infer<typeof CustomFieldSchema>;
+export type FreeScoutConversationCustomField = z.infer<typeof ConversationCustomFieldSchema>;
 export type FreeScoutConversation = z.infer<typeof ConversationSchema>;
-export type FreeScoutApiResponse<T = unknown> = z.infer<typeof ApiResponseSchema> & { data?: T };
+export type FreeScoutMailbox = z.infer<typeof MailboxSchema>;
+export type FreeScoutMailboxList = z.infer<typeof MailboxListSchema>;
+export type FreeScoutApiResponse = z.infer<typeof ApiResponseSchema>;
 export type TicketAnalysis = z.infer<typeof TicketAnalysisSchema>;
 export type SearchFilters = z.infer<typeof SearchFiltersSchema>;
+export type AttachmentUpload = z.infer<typeof AttachmentUploadSchema>;
+export type CustomerSearchFilters = z.infer<typeof CustomerSearchFiltersSchema>;
+export type CustomerUpdate = z.infer<typeof CustomerUpdateSchema>;
 export interface FreeScoutRecipients {
   to?: string[];
   cc?: string[];
   bcc?: string[];
 }
+export interface FreeScoutAttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: string; // base64
+}
+export interface FreeScoutCustomFieldValue {
+  id: number;
+  value: string;
+}
+export interface FreeScoutNewConversation {
+  mailboxId: number;
+  subject: string;
+  customer: { id: number } | { email: string };
+  threadType: 'customer' | 'message' | 'note';
+  text: string;
+  userId?: number;
+  recipients?: FreeScoutRecipients;
+  assignTo?: number;
+  status?: 'active' | 'pending' | 'closed';
+  tags?: string[];
+  draft?: boolean;
+}
+export interface FreeScoutThreadUpdate {
+  text?: string;
+  recipients?: FreeScoutRecipients;
+  state?: 'draft' | 'published';
+  attachments?: FreeScoutAttachmentUpload[];
+}
+/** A ticket as a tool argument names it: by internal ID or by the number shown to customers. */
+export interface TicketReference {
+  kind: 'id' | 'number';
+  value: number;
+}
+/** Both identifiers of a ticket. Tools address FreeScout by `id` and report both. */
+export interface ResolvedTicket {
+  id: string;
+  number: number;
+  /** The ticket with its threads, when looking up its number loaded it. */
+  conversation?: FreeScoutConversation;
+}
 
 // Legacy interfaces (deprecated, use Zod schemas above)
 export interface FreeScoutPage {
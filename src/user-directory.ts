@@ -0,0 +1,106 @@
+import type { FreeScoutUser } from './types.js';
+
+export const DEFAULT_USER_DIRECTORY_TTL_MS = 5 * 60_000;
+
+type UserLoader = () => Promise<FreeScoutUser[]>;
+
+function displayName(user: FreeScoutUser): string {
+  return `${user.first_name || ''} ${user.last_name || ''}`.trim();
+}
+
+function describeUser(user: FreeScoutUser): string {
+  const name = displayName(user);
+  return name ? `${name} <${user.email}> (ID ${user.id})` : `${user.email} (ID ${user.id})`;
+}
+
+/**
+ * Caches the FreeScout user list so tools can accept an email address or
+ * name wherever a user ID is expected. Numeric IDs are passed through without
+ * loading the directory.
+ */
+export class UserDirectory {
+  private users: FreeScoutUser[] | undefined;
+  private loadedAt = 0;
+  private pending: Promise<FreeScoutUser[]> | undefined;
+
+  constructor(
+    private readonly loadUsers: UserLoader,
+    private readonly ttlMs: number = DEFAULT_USER_DIRECTORY_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async list(): Promise<FreeScoutUser[]> {
+    if (this.users && this.now() - this.loadedAt < this.ttlMs) {
+      return this.users;
+    }
+
+    // Share one in-flight load between concurrent callers
+    this.pending ??= this.loadUsers()
+      .then((users) => {
+        this.users = users;
+        this.loadedAt = this.now();
+        return users;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+
+    return this.pending;
+  }
+
+  invalidate(): void {
+    this.users = undefined;
+  }
+
+  /**
+   * Resolves a user ID, email address, or name to a FreeScout user ID.
+   * Exact email or full-name matches win over partial name matches.
+   */
+  async resolve(input: number | string): Promise<number> {
+    if (typeof input === 'number') {
+      return input;
+    }
+
+    const query = input.trim();
+    if (query === '') {
+      // An empty needle would be contained in every name
+      throw new Error('User must be a user ID, email address, or name, not an empty string');
+    }
+    if (/^\d+$/.test(query)) {
+      const id = Number(query);
+      if (!Number.isSafeInteger(id) || id < 1) {
+        throw new Error(`User ID must be a positive integer, got "${query}"`);
+      }
+      return id;
+    }
+
+    const needle = query.toLowerCase();
+    const users = await this.list();
+
+    const exact = users.filter(
+      (user) => user.email.toLowerCase() === needle || displayName(user).toLowerCase() === needle
+    );
+    const candidates =
+      exact.length > 0
+        ? exact
+        : users.filter((user) =>
+            [user.first_name, user.last_name, displayName(user)].some((name) =>
+              name?.toLowerCase().includes(needle)
+            )
+          );
+
+    if (candidates.length === 0) {
+      throw new Error(
+        `No FreeScout user matches "${query}". Use freescout_list_users to see available users.`
+      );
+    }
+
+    if (candidates.length > 1) {
+      throw new Error(
+        `"${query}" matches more than one FreeScout user: ${candidates.map(describeUser).join(', ')}. Use an email address or user ID instead.`
+      );
+    }
+
+    return candidates[0].id;
+  }
+}